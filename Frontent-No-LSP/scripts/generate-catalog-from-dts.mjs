@@ -0,0 +1,325 @@
+#!/usr/bin/env node
+/**
+ * Generate CustomFunction entries (the shape of CUSTOM_FUNCTIONS in src/config.ts) from a
+ * TypeScript declaration file, so the catalog follows the real host function signatures.
+ *
+ * Usage: node scripts/generate-catalog-from-dts.mjs <input.d.ts> [output.ts]
+ * Without an output file the module is written to stdout.
+ *
+ * Read from the declarations:
+ * - `declare function` / `export function` declarations; repeated declarations become overloads
+ * - `declare namespace os { function path_exists(...) }` members as `os.path_exists` (+ CustomNamespace)
+ * - parameter names, optional (`?`) and rest (`...`) parameters
+ * - types: string, number, boolean, any/unknown; string literal unions become enum parameters;
+ *   return types additionally map arrays to 'array' and void to 'void'
+ * - the JSDoc comment as `doc`, `@param` comments as `description`
+ * - custom tags, either on the function or in a JSDoc comment on the parameter itself:
+ *     @pathType <param> file|folder|both   (or `/** @pathType folder *\/ dest: string`)
+ *     @isSource <param>                    (or `/** @isSource *\/ source: string`)
+ *     @default <param> <source text>       (or `/** @default false *\/ overwrite?: boolean`)
+ *   A parameter with @pathType or @isSource is a path parameter. Tags and @param comments on one
+ *   declaration also apply to the parameters of the same name in its overloads (its own come first).
+ * - function tags: @deprecated (a `{@link name}` in the message is the replacement),
+ *   @category <name>, @tags <tag>, <tag>, @example <call> (one per example)
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import ts from 'typescript';
+
+const PATH_TYPES = ['file', 'folder', 'both'];
+
+function fail(message) {
+  console.error(`[CATALOG_FROM_DTS] ${message}`);
+  process.exit(1);
+}
+
+function tagText(tag) {
+  return (ts.getTextOfJSDocComment(tag.comment) ?? '').trim();
+}
+
+/**
+ * JSDoc tags of a function declaration (not those written on its parameters).
+ */
+function getFunctionTags(node) {
+  return (node.jsDoc ?? []).flatMap(doc => doc.tags ?? []);
+}
+
+/**
+ * Declarations whose JSDoc describes the parameters of `node`: the node itself first, then its other
+ * overloads, since a comment is usually written on the first declaration only.
+ */
+function getDocumentingDeclarations(node, declarations) {
+  return [node, ...declarations.filter(declaration => declaration !== node)];
+}
+
+/**
+ * Tags written in a JSDoc comment directly on a parameter: `copy(/** @isSource *\/ source: string)`.
+ */
+function getInlineParameterTags(param) {
+  return (param.jsDoc ?? []).flatMap(doc => doc.tags ?? []);
+}
+
+/**
+ * Value of a function-level custom tag for a parameter: `@pathType dest folder` -> 'folder'.
+ * Returns '' for a tag without value (`@isSource source`), undefined if there is no such tag.
+ */
+function getParameterTagValue(functionTags, tagName, paramName) {
+  for (const tag of functionTags) {
+    if (tag.tagName.text !== tagName) continue;
+    const [name, ...rest] = tagText(tag).split(/\s+/);
+    if (name === paramName) return rest.join(' ');
+  }
+  return undefined;
+}
+
+function getCustomTag(functionTags, param, tagName) {
+  const inline = getInlineParameterTags(param).find(tag => tag.tagName.text === tagName);
+  if (inline) return tagText(inline);
+  return getParameterTagValue(functionTags, tagName, param.name.getText());
+}
+
+function getParamDescription(nodes, paramName) {
+  const tag = nodes.flatMap(node => ts.getJSDocTags(node)).find(t => ts.isJSDocParameterTag(t) && t.name.getText() === paramName);
+  const text = tag ? tagText(tag).replace(/^-\s*/, '') : '';
+  return text || undefined;
+}
+
+function getStringLiteralOptions(typeNode) {
+  if (!typeNode) return null;
+  const members = ts.isUnionTypeNode(typeNode) ? typeNode.types : [typeNode];
+  const values = members.map(member =>
+    ts.isLiteralTypeNode(member) && ts.isStringLiteral(member.literal) ? member.literal.text : null
+  );
+  return values.every(value => value !== null) ? values : null;
+}
+
+function toParameterType(typeNode, checker) {
+  if (!typeNode) return 'any';
+  switch (typeNode.kind) {
+    case ts.SyntaxKind.StringKeyword: return 'string';
+    case ts.SyntaxKind.NumberKeyword: return 'number';
+    case ts.SyntaxKind.BooleanKeyword: return 'boolean';
+    default: break;
+  }
+  // Aliases such as `type Algorithm = 'md5' | 'sha256'` or `type FilePath = string`
+  const type = checker.getTypeFromTypeNode(typeNode);
+  if (type.flags & ts.TypeFlags.StringLike) return 'string';
+  if (type.flags & ts.TypeFlags.NumberLike) return 'number';
+  if (type.flags & ts.TypeFlags.BooleanLike) return 'boolean';
+  if (type.isUnion() && type.types.every(t => t.flags & ts.TypeFlags.BooleanLiteral)) return 'boolean';
+  if (type.isUnion() && type.types.every(t => t.isStringLiteral())) return 'string';
+  return 'any';
+}
+
+function getAliasOptions(typeNode, checker) {
+  const direct = getStringLiteralOptions(typeNode);
+  if (direct) return direct;
+  if (!typeNode) return null;
+  const type = checker.getTypeFromTypeNode(typeNode);
+  if (type.isStringLiteral()) return [type.value];
+  if (type.isUnion() && type.types.every(t => t.isStringLiteral())) return type.types.map(t => t.value);
+  return null;
+}
+
+function toReturnType(typeNode, checker) {
+  if (!typeNode) return undefined;
+  if (typeNode.kind === ts.SyntaxKind.VoidKeyword) return 'void';
+  if (ts.isArrayTypeNode(typeNode)) return 'array';
+  if (ts.isTypeReferenceNode(typeNode) && ['Array', 'ReadonlyArray'].includes(typeNode.typeName.getText())) {
+    return 'array';
+  }
+  const type = checker.getTypeFromTypeNode(typeNode);
+  if (checker.isArrayType?.(type)) return 'array';
+  return toParameterType(typeNode, checker);
+}
+
+function toFunctionParameter(param, documentingNodes, checker, qualifiedName) {
+  const name = param.name.getText();
+  const functionTags = documentingNodes.flatMap(getFunctionTags);
+  const rest = param.dotDotDotToken !== undefined;
+  let typeNode = param.type;
+  if (rest && typeNode && ts.isArrayTypeNode(typeNode)) {
+    typeNode = typeNode.elementType;
+  }
+
+  const result = { name, type: toParameterType(typeNode, checker) };
+
+  const pathType = getCustomTag(functionTags, param, 'pathType');
+  const isSource = getCustomTag(functionTags, param, 'isSource');
+  if (pathType !== undefined || isSource !== undefined) {
+    if (pathType && !PATH_TYPES.includes(pathType)) {
+      fail(`${qualifiedName}(${name}): @pathType must be one of ${PATH_TYPES.join(', ')}, found '${pathType}'`);
+    }
+    result.type = 'path';
+    result.pathType = pathType || 'both';
+    if (isSource !== undefined) result.isSource = true;
+  } else {
+    const options = result.type === 'string' ? getAliasOptions(typeNode, checker) : null;
+    if (options && options.length > 0) {
+      result.type = 'enum';
+      result.options = options.map(value => ({ value }));
+    }
+  }
+
+  if (param.questionToken) result.optional = true;
+  const defaultValue = getCustomTag(functionTags, param, 'default');
+  if (defaultValue) {
+    result.optional = true;
+    result.defaultValue = defaultValue;
+  }
+  if (rest) result.rest = true;
+
+  const description = getParamDescription(documentingNodes, name);
+  if (description) result.description = description;
+  return result;
+}
+
+function formatSignature(name, parameters) {
+  const formatted = parameters.map(param => {
+    const text = param.rest ? `...${param.name}` : param.name;
+    if (!param.optional) return text;
+    return param.defaultValue !== undefined ? `[${text} = ${param.defaultValue}]` : `[${text}]`;
+  });
+  return `${name}(${formatted.join(', ')})`;
+}
+
+function getDoc(node) {
+  const docs = node.jsDoc ?? [];
+  return docs.map(doc => (ts.getTextOfJSDocComment(doc.comment) ?? '').trim()).filter(Boolean).join('\n');
+}
+
+function toCustomFunction(declarations, qualifiedName, checker) {
+  const [primary, ...others] = declarations;
+  const toParameters = declaration => {
+    const documentingNodes = getDocumentingDeclarations(declaration, declarations);
+    return declaration.parameters.map(p => toFunctionParameter(p, documentingNodes, checker, qualifiedName));
+  };
+  const parameters = toParameters(primary);
+  // Same key order as config.ts: parameters and overloads after the function metadata
+  const func = {
+    name: qualifiedName,
+    doc: getDoc(primary),
+    signature: formatSignature(qualifiedName, parameters)
+  };
+
+  const returnType = toReturnType(primary.type, checker);
+  if (returnType) func.returnType = returnType;
+
+  for (const tag of getFunctionTags(primary)) {
+    const text = tagText(tag);
+    switch (tag.tagName.text) {
+      case 'deprecated': {
+        const link = text.match(/\{@link(?:code|plain)?\s+([\w.]+)\s*\}/);
+        func.deprecated = { message: text.replace(/\{@link(?:code|plain)?\s+([\w.]+)\s*\}/g, '$1') || 'Deprecated' };
+        if (link) func.deprecated.replacement = link[1];
+        break;
+      }
+      case 'category':
+        func.category = text;
+        break;
+      case 'tags':
+        func.tags = [...(func.tags ?? []), ...text.split(/[\s,]+/).filter(Boolean)];
+        break;
+      case 'example':
+        if (text) func.examples = [...(func.examples ?? []), text];
+        break;
+      default:
+        break;
+    }
+  }
+
+  func.parameters = parameters;
+  if (others.length > 0) {
+    func.overloads = others.map(declaration => {
+      const overloadParameters = toParameters(declaration);
+      const overload = { signature: formatSignature(qualifiedName, overloadParameters), parameters: overloadParameters };
+      const doc = getDoc(declaration);
+      if (doc && doc !== func.doc) overload.doc = doc;
+      return overload;
+    });
+  }
+
+  return func;
+}
+
+/**
+ * Collect function declarations by qualified name, in declaration order.
+ */
+function collectDeclarations(statements, prefix, functions, namespaces) {
+  for (const statement of statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      const name = `${prefix}${statement.name.text}`;
+      functions.set(name, [...(functions.get(name) ?? []), statement]);
+    } else if (ts.isModuleDeclaration(statement) && statement.body && ts.isModuleBlock(statement.body)) {
+      const name = `${prefix}${statement.name.getText().replace(/['"]/g, '')}`;
+      if (!namespaces.has(name)) namespaces.set(name, { name, doc: getDoc(statement) });
+      collectDeclarations(statement.body.statements, `${name}.`, functions, namespaces);
+    }
+  }
+}
+
+// Serialize values the way config.ts is written: single quotes, unquoted keys, short objects on one line
+function toSource(value, indent = '') {
+  if (typeof value === 'string') return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  if (typeof value !== 'object' || value === null) return String(value);
+
+  const inner = `${indent}  `;
+  const isArray = Array.isArray(value);
+  const items = isArray
+    ? value.map(item => toSource(item, inner))
+    : Object.entries(value).map(([key, item]) => `${/^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`}: ${toSource(item, inner)}`);
+  const [open, close] = isArray ? ['[', ']'] : ['{ ', ' }'];
+
+  const oneLine = isArray ? `[${items.join(', ')}]` : `${open}${items.join(', ')}${close}`;
+  const hasNestedObjects = isArray ? value.some(item => typeof item === 'object') : Object.values(value).some(item => Array.isArray(item) && item.some(i => typeof i === 'object'));
+  if (items.length === 0) return isArray ? '[]' : '{}';
+  if (!hasNestedObjects && !oneLine.includes('\n') && indent.length + oneLine.length <= 100) return oneLine;
+
+  return `${open.trim()}\n${items.map(item => `${inner}${item}`).join(',\n')}\n${indent}${close.trim()}`;
+}
+
+function main() {
+  const [input, output] = process.argv.slice(2);
+  if (!input) fail('Usage: node scripts/generate-catalog-from-dts.mjs <input.d.ts> [output.ts]');
+  if (!fs.existsSync(input)) fail(`File not found: ${input}`);
+
+  // No DOM lib: host declarations may reuse names such as `Algorithm`
+  const program = ts.createProgram([input], { noEmit: true, lib: ['lib.es2020.d.ts'], types: [] });
+  const source = program.getSourceFile(input);
+  const checker = program.getTypeChecker();
+  const syntaxErrors = program.getSyntacticDiagnostics(source);
+  if (syntaxErrors.length > 0) {
+    fail(ts.formatDiagnostics(syntaxErrors, {
+      getCanonicalFileName: f => f,
+      getCurrentDirectory: () => process.cwd(),
+      getNewLine: () => '\n'
+    }));
+  }
+
+  const declarations = new Map();
+  const namespaces = new Map();
+  collectDeclarations(source.statements, '', declarations, namespaces);
+
+  const functions = [...declarations.entries()].map(([name, nodes]) => toCustomFunction(nodes, name, checker));
+  const functionsSource = toSource(functions);
+  const namespacesSource = toSource([...namespaces.values()]);
+
+  const module = [
+    `// Generated from ${path.basename(input)} by scripts/generate-catalog-from-dts.mjs - do not edit by hand.`,
+    `import { CustomFunction, CustomNamespace } from '../types';`,
+    '',
+    `export const GENERATED_FUNCTIONS: CustomFunction[] = ${functionsSource};`,
+    '',
+    `export const GENERATED_NAMESPACES: CustomNamespace[] = ${namespacesSource};`,
+    ''
+  ].join('\n');
+
+  if (output) {
+    fs.writeFileSync(output, module);
+    console.log(`[CATALOG_FROM_DTS] Wrote ${functions.length} functions and ${namespaces.size} namespaces to ${output}`);
+  } else {
+    process.stdout.write(module);
+  }
+}
+
+main();
@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+/**
+ * Generate the function reference (Markdown or HTML) from CUSTOM_FUNCTIONS or an ApiSpec file.
+ * Uses the same ReferenceGenerator as the in-app "Export reference" action; the TypeScript
+ * sources are loaded through Vite, so no separate build is needed.
+ *
+ * Usage: node scripts/generate-reference.mjs [--format markdown|html] [--spec api-spec.json] --out output
+ * --out (or -o) is required and may not be the spec file.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const FORMATS = ['markdown', 'html'];
+const USAGE = 'Usage: node scripts/generate-reference.mjs [--format markdown|html] [--spec api-spec.json] --out output';
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+function fail(message) {
+  console.error(`[REFERENCE] ${message}`);
+  process.exit(1);
+}
+
+function parseArgs(args) {
+  const options = { format: 'markdown', spec: null, output: null };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--format') {
+      options.format = args[++i];
+    } else if (arg === '--spec') {
+      options.spec = args[++i];
+    } else if (arg === '--out' || arg === '-o') {
+      options.output = args[++i];
+    } else if (arg.startsWith('-')) {
+      fail(`Unknown option ${arg}`);
+    } else {
+      // A bare path is easily meant as the spec; never overwrite it by accident
+      fail(`Unexpected argument ${arg}: use --spec <file> for the input and --out <file> for the output`);
+    }
+  }
+  if (!FORMATS.includes(options.format)) {
+    fail(`--format must be one of ${FORMATS.join(', ')}`);
+  }
+  if (options.output === undefined || options.spec === undefined) {
+    fail('--out and --spec need a file');
+  }
+  if (!options.output) {
+    fail(`--out is required\n${USAGE}`);
+  }
+  if (options.spec && path.resolve(options.output) === path.resolve(options.spec)) {
+    fail(`--out ${options.output} is the spec file`);
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const server = await createServer({
+    root,
+    configFile: false,
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+    appType: 'custom',
+    optimizeDeps: { noDiscovery: true }
+  });
+
+  try {
+    const { ReferenceGenerator } = await server.ssrLoadModule('/src/services/referenceGenerator.ts');
+    let functions;
+    let namespaces = [];
+
+    if (options.spec) {
+      if (!fs.existsSync(options.spec)) fail(`File not found: ${options.spec}`);
+      const { ApiSpecLoader } = await server.ssrLoadModule('/src/services/apiSpecLoader.ts');
+      try {
+        ({ functions, namespaces } = ApiSpecLoader.parse(JSON.parse(fs.readFileSync(options.spec, 'utf8'))));
+      } catch (error) {
+        fail(`${options.spec}: ${error.message}`);
+      }
+    } else {
+      ({ CUSTOM_FUNCTIONS: functions } = await server.ssrLoadModule('/src/config.ts'));
+    }
+
+    const content = ReferenceGenerator.generate(options.format, functions, namespaces);
+    fs.writeFileSync(options.output, content);
+    console.log(`[REFERENCE] Wrote ${functions.length} functions to ${options.output}`);
+  } finally {
+    await server.close();
+  }
+}
+
+main().catch(error => fail(error.stack ?? String(error)));
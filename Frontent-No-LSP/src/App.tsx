@@ -1,30 +1,49 @@
-import { useRef, useState, useCallback } from 'react';
+import { useRef, useState, useCallback, useEffect, useMemo } from 'react';
 import * as monaco from 'monaco-editor';
 import { useMonacoEditor } from './hooks/useMonacoEditor';
+import { useFunctionCatalog } from './hooks/useFunctionCatalog';
 import { ParameterPicker } from './components/ParameterPicker';
+import { EnumPicker } from './components/EnumPicker';
+import { FunctionBrowser } from './components/FunctionBrowser';
 import { validateScriban } from './services/mockBackend';
-import { CUSTOM_FUNCTIONS } from './config';
-import { Diagnostic } from './types';
+import { API_SPEC_URL } from './config';
+import { CustomFunction, Diagnostic, ScribanMode } from './types';
 import { ParameterValueExtractor } from './services/parameterValueExtractor';
+import { ApiSpecLoader } from './services/apiSpecLoader';
+import { FunctionCatalog } from './services/functionCatalog';
+import { FunctionCallParser } from './services/functionCallParser';
+import { ReferenceFormat, ReferenceGenerator } from './services/referenceGenerator';
 import { DebugLogger } from './utils/debugLogger';
+import { downloadTextFile } from './utils/downloadUtils';
 import { PickerState, DEFAULT_PICKER_STATE, closePickerState, createPickerState } from './utils/pickerStateUtils';
 import { delayedSequentialPicker } from './utils/timingUtils';
+import { getScribanMode } from './utils/scribanModeUtils';
 import './App.css';
 
 function App() {
   const editorContainerRef = useRef<HTMLDivElement>(null);
   const editorControlsRef = useRef<{
-    replaceParameter: (functionName: string, parameterIndex: number, text: string, nearPosition?: monaco.Position) => void;
-    setDiagnostics: (diagnostics: Diagnostic[]) => void;
+    replaceParameter: (functionName: string, parameterIndex: number, value: string, nearPosition?: monaco.Position) => void;
+    setDiagnostics: (diagnostics: Diagnostic[], versionId?: number) => void;
     getMarkerPosition: (range: monaco.Range) => { x: number; y: number } | null;
     editor: monaco.editor.IStandaloneCodeEditor | null;
     getModel: () => monaco.editor.ITextModel | null;
     getEditor: () => monaco.editor.IStandaloneCodeEditor | null;
     deselectAndPositionCursor: (range: monaco.Range) => void;
     triggerMarkerDetection: () => void;
+    insertFunctionCall: (func: CustomFunction) => void;
+    setMode: (mode: ScribanMode) => void;
   } | null>(null);
 
     const [pickerState, setPickerState] = useState<PickerState>(DEFAULT_PICKER_STATE);
+  const [mode, setMode] = useState<ScribanMode>('script');
+  const functions = useFunctionCatalog();
+
+  // Hint built from the catalog so it never lists functions that do not exist
+  const tryTypingHint = useMemo(
+    () => functions.filter(f => !f.deprecated && !f.name.includes('.')).map(f => f.name).join(', '),
+    [functions]
+  );
 
   const handleMarkerDetected = useCallback((info: { range: monaco.Range; functionName: string; parameterIndex: number }) => {
     DebugLogger.handleMarkerDetected('Called with info:', info);
@@ -49,10 +68,12 @@ function App() {
     }
   }, []);
 
-  const handleValidation = useCallback(async (script: string) => {
-    const diagnostics = await validateScriban(script);
+  const handleValidation = useCallback(async (script: string, versionId?: number) => {
+    // The editor's model knows its mode (script or template)
+    const model = editorControlsRef.current?.getModel();
+    const diagnostics = await validateScriban(script, model ? getScribanMode(model) : 'script');
     if (editorControlsRef.current) {
-      editorControlsRef.current.setDiagnostics(diagnostics);
+      editorControlsRef.current.setDiagnostics(diagnostics, versionId);
     }
   }, []);
 
@@ -101,6 +122,42 @@ function App() {
     editorControlsRef.current = editorControls;
   }
 
+  // Load the function catalog from the ApiSpec file (the editor and sidebar follow catalog changes)
+  useEffect(() => {
+    let cancelled = false;
+    ApiSpecLoader.loadFromUrl(API_SPEC_URL)
+      .then(catalog => {
+        if (cancelled) return;
+        FunctionCatalog.setFunctions(catalog.functions, catalog.namespaces);
+      })
+      .catch(error => {
+        console.error('[API_SPEC] Using built-in function catalog:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleExportReference = useCallback((format: ReferenceFormat) => {
+    const content = ReferenceGenerator.generate(format, FunctionCatalog.getFunctions(), FunctionCatalog.getNamespaces());
+    if (format === 'html') {
+      downloadTextFile('function-reference.html', content, 'text/html');
+    } else {
+      downloadTextFile('function-reference.md', content, 'text/markdown');
+    }
+  }, []);
+
+  const handleModeChange = useCallback((newMode: ScribanMode) => {
+    setPickerState(closePickerState());
+    setMode(newMode);
+    editorControlsRef.current?.setMode(newMode);
+  }, []);
+
+  const handleInsertFunction = useCallback((func: CustomFunction) => {
+    // Inserts at the cursor with markers; the picker flow starts from the first marker
+    editorControlsRef.current?.insertFunctionCall(func);
+  }, []);
+
   const handleParameterSelect = (value: string) => {
     if (editorControlsRef.current) {
       const { functionName, parameterIndex, range: currentRange } = pickerState;
@@ -155,8 +212,16 @@ function App() {
         <div className="editor-container">
           <div className="editor-header">
             <h2>Scriban Script Editor</h2>
+            <div className="mode-switch" role="group" aria-label="Editor mode">
+              <button type="button" className={mode === 'script' ? 'active' : ''} onClick={() => handleModeChange('script')}>
+                Script
+              </button>
+              <button type="button" className={mode === 'template' ? 'active' : ''} onClick={() => handleModeChange('template')}>
+                Template
+              </button>
+            </div>
             <div className="editor-info">
-              <span>💡 Try typing: copy, move, delete, read, write</span>
+              <span>💡 Try typing: {tryTypingHint}</span>
             </div>
           </div>
           <div ref={editorContainerRef} className="editor" />
@@ -165,28 +230,12 @@ function App() {
         <div className="sidebar">
           <div className="sidebar-section">
             <h3>Available Functions</h3>
-            <ul className="function-list">
-              <li>
-                <code>copy(source, dest)</code>
-                <p>Copy files or directories. Source supports globbing, dest folders must end with /</p>
-              </li>
-              <li>
-                <code>move(source, dest)</code>
-                <p>Move files or directories. Source supports globbing, dest folders must end with /</p>
-              </li>
-              <li>
-                <code>delete(path)</code>
-                <p>Delete files or directories</p>
-              </li>
-              <li>
-                <code>read(path)</code>
-                <p>Read file contents</p>
-              </li>
-              <li>
-                <code>write(path, content)</code>
-                <p>Write content to a file</p>
-              </li>
-            </ul>
+            <FunctionBrowser functions={functions} onInsert={handleInsertFunction} />
+            <div className="reference-export">
+              <span>Export reference:</span>
+              <button type="button" onClick={() => handleExportReference('markdown')}>Markdown</button>
+              <button type="button" onClick={() => handleExportReference('html')}>HTML</button>
+            </div>
           </div>
 
           <div className="sidebar-section">
@@ -217,12 +266,35 @@ function App() {
       </div>
 
       {pickerState.visible && (() => {
-        const func = CUSTOM_FUNCTIONS.find(f => f.name === pickerState.functionName);
-        const parameter = func?.parameters[pickerState.parameterIndex];
-        if (!parameter || parameter.type !== 'path') {
+        const model = editorControlsRef.current?.getModel();
+        const parameter = model
+          ? FunctionCallParser.getParameterDefinition(
+              model,
+              pickerState.functionName,
+              pickerState.parameterIndex,
+              pickerState.range?.getStartPosition()
+            )
+          : FunctionCatalog.findFunction(pickerState.functionName)?.parameters[pickerState.parameterIndex];
+        if (!parameter) {
           return null;
         }
-        
+
+        if (parameter.type === 'enum') {
+          return (
+            <EnumPicker
+              position={pickerState.position}
+              parameter={parameter}
+              currentValue={pickerState.currentValue}
+              onSelect={handleParameterSelect}
+              onCancel={handleParameterCancel}
+            />
+          );
+        }
+
+        if (parameter.type !== 'path') {
+          return null;
+        }
+
         // Use metadata to determine if this is a source parameter
         const isSource = parameter.isSource ?? false;
         
@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { EnumOption, FunctionParameter } from '../types';
+import './ParameterPicker.css';
+
+interface EnumPickerProps {
+  position: { x: number; y: number };
+  parameter: FunctionParameter;
+  currentValue?: string | null; // Current parameter value (without quotes)
+  onSelect: (value: string) => void; // Selected value (without quotes)
+  onCancel: () => void;
+}
+
+// Helper function to match an option against the filter text (value or description)
+const matchesFilter = (option: EnumOption, filter: string): boolean => {
+  const term = filter.toLowerCase();
+  return option.value.toLowerCase().includes(term) ||
+    (option.description?.toLowerCase().includes(term) ?? false);
+};
+
+export const EnumPicker: React.FC<EnumPickerProps> = ({
+  position,
+  parameter,
+  currentValue,
+  onSelect,
+  onCancel
+}) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  const options = useMemo(() => parameter.options ?? [], [parameter.options]);
+
+  // Filter options by search term - memoize to prevent unnecessary recalculations
+  const filteredOptions = useMemo(
+    () => options.filter(option => matchesFilter(option, searchTerm)),
+    [options, searchTerm]
+  );
+
+  // Keep the current value selected while it is visible, otherwise select the first match
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  useEffect(() => {
+    const index = currentValue
+      ? filteredOptions.findIndex(option => option.value === currentValue)
+      : -1;
+    setSelectedIndex(index >= 0 ? index : 0);
+  }, [currentValue, filteredOptions]);
+
+  const handleSelect = React.useCallback((option: EnumOption) => {
+    // The editor writes it as a string literal in the argument's quote style
+    onSelect(option.value);
+  }, [onSelect]);
+
+  // Focus the search input when the picker opens
+  useEffect(() => {
+    searchInputRef.current?.focus();
+  }, []);
+
+  // Scroll selected option into view when selection changes
+  useEffect(() => {
+    if (listRef.current && selectedIndex >= 0 && selectedIndex < filteredOptions.length) {
+      const selectedElement = listRef.current.children[selectedIndex] as HTMLElement;
+      selectedElement?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [selectedIndex, filteredOptions.length]);
+
+  const handleInputKeyDown = React.useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      onCancel();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      e.stopPropagation();
+      setSelectedIndex(prev => Math.min(prev + 1, filteredOptions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      e.stopPropagation();
+      setSelectedIndex(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      e.stopPropagation();
+      if (filteredOptions[selectedIndex]) {
+        handleSelect(filteredOptions[selectedIndex]);
+      } else {
+        // No matches - close the picker
+        onCancel();
+      }
+    }
+  }, [filteredOptions, selectedIndex, handleSelect, onCancel]);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        onCancel();
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [onCancel]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="parameter-picker"
+      style={{
+        left: `${position.x}px`,
+        top: `${position.y}px`
+      }}
+    >
+      <div className="parameter-picker-header">
+        <div className="parameter-picker-title">
+          {parameter.name} {parameter.description && `- ${parameter.description}`}
+        </div>
+        <input
+          ref={searchInputRef}
+          type="text"
+          className="parameter-picker-search"
+          placeholder="Filter values..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          onKeyDown={handleInputKeyDown}
+        />
+      </div>
+
+      <div ref={listRef} className="parameter-picker-list">
+        {filteredOptions.length === 0 ? (
+          <div className="parameter-picker-item parameter-picker-item-empty">
+            No matches found
+          </div>
+        ) : (
+          filteredOptions.map((option, index) => (
+            <div
+              key={option.value}
+              className={`parameter-picker-item ${
+                index === selectedIndex ? 'parameter-picker-item-selected' : ''
+              }`}
+              onClick={() => handleSelect(option)}
+              onMouseEnter={() => setSelectedIndex(index)}
+            >
+              <span className="parameter-picker-item-icon">🔹</span>
+              <span className="parameter-picker-item-text">{option.value}</span>
+              {option.description && (
+                <span className="parameter-picker-item-description">{option.description}</span>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="parameter-picker-footer">
+        <span className="parameter-picker-hint">
+          {parameter.defaultValue !== undefined
+            ? `Default: ${parameter.defaultValue} • Press Enter to select`
+            : 'Press Enter to select'}
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState, useMemo } from 'react';
+import { CustomFunction, FunctionParameter } from '../types';
+import { OverloadResolver } from '../services/overloadResolver';
+import { describeConstraints } from '../utils/constraintUtils';
+import { formatParameter } from '../utils/signatureUtils';
+import './FunctionBrowser.css';
+
+interface FunctionBrowserProps {
+  functions: CustomFunction[];
+  onInsert: (func: CustomFunction) => void;
+}
+
+const DEFAULT_CATEGORY = 'Other';
+
+// Helper function to match a function against the search text (name, doc, category, tags)
+const matchesSearch = (func: CustomFunction, search: string): boolean => {
+  const term = search.trim().toLowerCase();
+  if (!term) return true;
+  return [func.name, func.doc, func.category ?? '', ...(func.tags ?? [])]
+    .some(text => text.toLowerCase().includes(term));
+};
+
+// Helper function to describe a parameter's type column, e.g. `path (file)` or `number (1..9)`
+const describeType = (param: FunctionParameter): string => {
+  const details: string[] = [];
+  if (param.pathType) details.push(param.pathType);
+  if (param.type === 'enum' && param.options) details.push(param.options.map(o => o.value).join(' | '));
+  if (param.constraints) details.push(describeConstraints(param.constraints));
+  return details.length > 0 ? `${param.type} (${details.join(', ')})` : param.type;
+};
+
+/**
+ * Sidebar panel listing the catalog functions by category.
+ * Entries can be searched and expanded to show their parameters; clicking a signature inserts the call.
+ */
+export const FunctionBrowser: React.FC<FunctionBrowserProps> = ({ functions, onInsert }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  // Group matching functions by category, keeping catalog order within a category
+  const groups = useMemo(() => {
+    const byCategory = new Map<string, CustomFunction[]>();
+    for (const func of functions.filter(f => matchesSearch(f, searchTerm))) {
+      const category = func.category ?? DEFAULT_CATEGORY;
+      byCategory.set(category, [...(byCategory.get(category) ?? []), func]);
+    }
+    return [...byCategory.entries()];
+  }, [functions, searchTerm]);
+
+  const toggleExpanded = (name: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="function-browser">
+      <input
+        type="text"
+        className="function-browser-search"
+        placeholder="Search functions..."
+        value={searchTerm}
+        onChange={(e) => setSearchTerm(e.target.value)}
+      />
+
+      {groups.length === 0 && (
+        <div className="function-browser-empty">No functions match "{searchTerm}"</div>
+      )}
+
+      {groups.map(([category, categoryFunctions]) => (
+        <div key={category} className="function-browser-category">
+          <h4>{category}</h4>
+          <ul className="function-list">
+            {categoryFunctions.map(func => {
+              const isExpanded = expanded.has(func.name);
+              return (
+                <li key={func.name} className={func.deprecated ? 'function-browser-deprecated' : undefined}>
+                  <div className="function-browser-entry">
+                    <button
+                      type="button"
+                      className="function-browser-toggle"
+                      aria-expanded={isExpanded}
+                      title={isExpanded ? 'Hide parameters' : 'Show parameters'}
+                      onClick={() => toggleExpanded(func.name)}
+                    >
+                      {isExpanded ? '▾' : '▸'}
+                    </button>
+                    <code title="Insert at cursor" onClick={() => onInsert(func)}>
+                      {func.signature}
+                    </code>
+                  </div>
+                  <p>{func.doc}</p>
+                  {func.deprecated && (
+                    <p className="function-browser-warning">
+                      ⚠️ Deprecated: {func.deprecated.message}
+                      {func.deprecated.replacement && <> Use <code>{func.deprecated.replacement}</code> instead.</>}
+                    </p>
+                  )}
+                  {func.tags && func.tags.length > 0 && (
+                    <div className="function-browser-tags">
+                      {func.tags.map(tag => <span key={tag} className="function-browser-tag">{tag}</span>)}
+                    </div>
+                  )}
+                  {isExpanded && OverloadResolver.getSignatures(func).map(overload => (
+                    <table key={overload.signature} className="function-browser-params">
+                      <caption>{overload.signature}</caption>
+                      <tbody>
+                        {overload.parameters.length === 0 ? (
+                          <tr><td colSpan={3}>No parameters</td></tr>
+                        ) : overload.parameters.map(param => (
+                          <tr key={param.name}>
+                            <td><code>{formatParameter(param)}</code></td>
+                            <td>{describeType(param)}</td>
+                            <td>{param.description}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ))}
+                  {isExpanded && func.returnType && (
+                    <p className="function-browser-returns">Returns <code>{func.returnType}</code></p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
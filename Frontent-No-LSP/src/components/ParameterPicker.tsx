@@ -9,7 +9,7 @@ interface ParameterPickerProps {
   parameter: FunctionParameter;
   isSource: boolean;
   currentValue?: string | null; // Current parameter value (without quotes)
-  onSelect: (value: string) => void;
+  onSelect: (value: string) => void; // Selected path (without quotes)
   onCancel: () => void;
 }
 
@@ -91,7 +91,7 @@ export const ParameterPicker: React.FC<ParameterPickerProps> = ({
       // Files stay as-is
     }
     
-    onSelect(`"${value}"`);
+    onSelect(value);
   }, [isSource, onSelect]);
 
   // Initialize selected index based on current value
@@ -338,6 +338,14 @@ export const ParameterPicker: React.FC<ParameterPickerProps> = ({
         </div>
       )}
 
+      {parameter.rest && (
+        <div className="parameter-picker-info">
+          <span className="parameter-picker-info-text">
+            💡 Accepts any number of paths - type <code>,</code> after this one to add another
+          </span>
+        </div>
+      )}
+
       <div ref={listRef} className="parameter-picker-list">
         {filteredItems.length === 0 ? (
           <div className="parameter-picker-item parameter-picker-item-empty">
@@ -1,21 +1,61 @@
-import { CustomFunction, FileSystemSnapshot } from './types';
+import { CustomFunction, FileSystemSnapshot, MacroDefinition } from './types';
 
 export const LANGUAGE_ID = 'scriban';
 
+// Language of editors in template mode (text with `{{ }}` code blocks); the mode of an editor is its model's language
+export const TEMPLATE_LANGUAGE_ID = 'scriban-template';
+
+/**
+ * ApiSpec file (same format as the backend api-spec.json) loaded at startup.
+ * CUSTOM_FUNCTIONS below is only the fallback catalog used until it loads or if it is invalid.
+ */
+export const API_SPEC_URL = '/api-spec.json';
+
 export const CUSTOM_FUNCTIONS: CustomFunction[] = [
   {
     name: 'copy',
     doc: 'Copies a file or directory from source to destination. Supports glob patterns for source.',
     signature: 'copy(source, dest)',
+    returnType: 'void',
+    category: 'File operations',
+    tags: ['glob'],
+    examples: ['copy("src/app.js", "dist/")', 'copy("src/*.js", "backup/", true)'],
     parameters: [
       { name: 'source', type: 'path', pathType: 'both', isSource: true, description: 'Source file or directory path (supports globbing)' },
       { name: 'dest', type: 'path', pathType: 'both', isSource: false, description: 'Destination file or folder (folder must end with /)' }
+    ],
+    overloads: [
+      {
+        signature: 'copy(source, dest, overwrite)',
+        doc: 'Copies a file or directory from source to destination, optionally overwriting existing files.',
+        parameters: [
+          { name: 'source', type: 'path', pathType: 'both', isSource: true, description: 'Source file or directory path (supports globbing)' },
+          { name: 'dest', type: 'path', pathType: 'both', isSource: false, description: 'Destination file or folder (folder must end with /)' },
+          { name: 'overwrite', type: 'boolean', description: 'Overwrite files that already exist at the destination' }
+        ]
+      }
+    ]
+  },
+  {
+    name: 'copy_file',
+    doc: 'Copies a single file from source to destination.',
+    signature: 'copy_file(source, dest, [overwrite = false])',
+    returnType: 'void',
+    category: 'File operations',
+    deprecated: { message: 'copy_file only handles single files.', replacement: 'copy' },
+    parameters: [
+      { name: 'source', type: 'path', pathType: 'file', isSource: true, description: 'Source file path' },
+      { name: 'dest', type: 'path', pathType: 'both', isSource: false, description: 'Destination file or folder (folder must end with /)' },
+      { name: 'overwrite', type: 'boolean', optional: true, defaultValue: 'false', description: 'Overwrite the destination if it exists' }
     ]
   },
   {
     name: 'move',
     doc: 'Moves a file or directory from source to destination. Supports glob patterns for source.',
     signature: 'move(source, dest)',
+    returnType: 'void',
+    category: 'File operations',
+    tags: ['glob'],
     parameters: [
       { name: 'source', type: 'path', pathType: 'both', isSource: true, description: 'Source file or directory path (supports globbing)' },
       { name: 'dest', type: 'path', pathType: 'both', isSource: false, description: 'Destination file or folder (folder must end with /)' }
@@ -24,30 +64,129 @@ export const CUSTOM_FUNCTIONS: CustomFunction[] = [
   {
     name: 'delete',
     doc: 'Deletes a file or directory. Supports glob patterns for bulk deletion.',
-    signature: 'delete(path)',
+    signature: 'delete(path, [recursive = false])',
+    returnType: 'void',
+    category: 'File operations',
+    tags: ['glob'],
     parameters: [
-      { name: 'path', type: 'path', pathType: 'both', description: 'File or directory path to delete' }
+      { name: 'path', type: 'path', pathType: 'both', description: 'File or directory path to delete' },
+      { name: 'recursive', type: 'boolean', optional: true, defaultValue: 'false', description: 'Also delete non-empty directories' }
     ]
   },
   {
     name: 'read',
     doc: 'Reads the contents of a file as a string.',
     signature: 'read(path)',
+    returnType: 'string',
+    category: 'File contents',
     parameters: [
       { name: 'path', type: 'path', pathType: 'file', description: 'File path to read' }
     ]
   },
+  {
+    name: 'head',
+    doc: 'Reads the first lines of a file as a string.',
+    signature: 'head(path, lines)',
+    returnType: 'string',
+    category: 'File contents',
+    examples: ['intro = head("README.md", 10)'],
+    parameters: [
+      { name: 'path', type: 'path', pathType: 'file', description: 'File path to read' },
+      { name: 'lines', type: 'number', description: 'Number of lines to read', constraints: { min: 1, max: 1000, integer: true } }
+    ]
+  },
+  {
+    name: 'hash',
+    doc: 'Computes the checksum of a file as a hex string.',
+    signature: 'hash(path, algorithm)',
+    returnType: 'string',
+    category: 'File contents',
+    tags: ['checksum'],
+    examples: ['checksum = hash("dist/bundle.js", "sha256")'],
+    parameters: [
+      { name: 'path', type: 'path', pathType: 'file', description: 'File to hash' },
+      {
+        name: 'algorithm',
+        type: 'enum',
+        description: 'Hash algorithm',
+        options: [
+          { value: 'md5', description: 'Fast, not collision resistant' },
+          { value: 'sha1', description: 'Legacy checksums' },
+          { value: 'sha256', description: 'Recommended default' },
+          { value: 'sha512', description: 'Longest digest' }
+        ]
+      }
+    ]
+  },
+  {
+    name: 'zip',
+    doc: 'Creates a zip archive containing all given source files and directories.',
+    signature: 'zip(dest, ...sources)',
+    returnType: 'void',
+    category: 'Archives',
+    tags: ['glob'],
+    examples: ['zip("release.zip", "dist/", "README.md")'],
+    parameters: [
+      {
+        name: 'dest',
+        type: 'path',
+        pathType: 'file',
+        isSource: false,
+        description: 'Archive file to create',
+        constraints: { pattern: '.*\\.zip' }
+      },
+      { name: 'sources', type: 'path', pathType: 'both', isSource: true, rest: true, description: 'Files or directories to add (supports globbing)' }
+    ]
+  },
   {
     name: 'write',
     doc: 'Writes content to a file. Creates the file if it does not exist.',
     signature: 'write(path, content)',
+    returnType: 'void',
+    category: 'File contents',
     parameters: [
       { name: 'path', type: 'path', pathType: 'file', description: 'File path to write to' },
       { name: 'content', type: 'string', description: 'Content to write' }
     ]
+  },
+  {
+    name: 'log_message',
+    doc: 'Writes a message to the script log.',
+    signature: 'log_message(message, level)',
+    returnType: 'void',
+    category: 'Logging',
+    examples: ['log_message("Build started at {{ date.now }}", "INFO")'],
+    parameters: [
+      {
+        name: 'message',
+        type: 'string',
+        description: 'Message text (right-click inside the string to insert macros)',
+        macros: ['TIMESTAMP', 'USER_ID', 'SESSION_ID']
+      },
+      {
+        name: 'level',
+        type: 'enum',
+        description: 'Log level',
+        options: [
+          { value: 'INFO', description: 'Informational message' },
+          { value: 'WARN', description: 'Something unexpected that does not stop the script' },
+          { value: 'ERROR', description: 'A failure' }
+        ]
+      }
+    ]
   }
 ];
 
+/**
+ * Macros that string parameters can offer (by key) for insertion inside the string.
+ * Keys without an entry here are inserted as `{{ key }}` in lower case.
+ */
+export const MACROS: MacroDefinition[] = [
+  { key: 'TIMESTAMP', label: 'Timestamp', text: '{{ date.now }}' },
+  { key: 'USER_ID', label: 'User ID', text: '{{ user.id }}' },
+  { key: 'SESSION_ID', label: 'Session ID', text: '{{ session.id }}' }
+];
+
 export const FILE_SYSTEM_SNAPSHOT: FileSystemSnapshot = {
   files: [
     'src/index.js',
@@ -16,7 +16,7 @@ interface ClickHandlerOptions {
 
 /**
  * Sets up click handler for parameter detection in Monaco editor.
- * When user clicks on a path parameter, triggers the parameter picker.
+ * When user clicks on a path or enum parameter, triggers the matching picker.
  */
 export function setupMonacoClickHandler(
   editor: monaco.editor.IStandaloneCodeEditor,
@@ -0,0 +1,57 @@
+import * as monaco from 'monaco-editor';
+import { findMacroParameterAtPosition } from '../../utils/macroUtils';
+import { MacroDefinition } from '../../types';
+
+// Context key holding the macro keys available at the cursor, as ",KEY1,KEY2,"
+const MACROS_CONTEXT_KEY = 'scribanMacros';
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/**
+ * Sets up the "Insert <macro>" context menu entries for string parameters with macros.
+ * An entry is only shown while the cursor is inside a string whose parameter offers that macro.
+ * Actions are registered the first time their macro is offered, so ApiSpec macros work too.
+ */
+export function setupMonacoMacroActions(
+  editor: monaco.editor.IStandaloneCodeEditor
+): monaco.IDisposable {
+  const macrosContextKey = editor.createContextKey<string>(MACROS_CONTEXT_KEY, '');
+  const actions = new Map<string, monaco.IDisposable>();
+
+  const insertMacro = (macro: MacroDefinition) => {
+    const selection = editor.getSelection();
+    if (!selection) return;
+    editor.executeEdits('macro', [{ range: selection, text: macro.text, forceMoveMarkers: true }]);
+    editor.focus();
+  };
+
+  const registerAction = (macro: MacroDefinition) => {
+    if (actions.has(macro.key)) return;
+    actions.set(macro.key, editor.addAction({
+      id: `scriban.insertMacro.${macro.key}`,
+      label: `Insert ${macro.label}`,
+      contextMenuGroupId: '0_macros',
+      precondition: `${MACROS_CONTEXT_KEY} =~ /,${escapeRegExp(macro.key)},/`,
+      run: () => insertMacro(macro)
+    }));
+  };
+
+  const cursorDisposable = editor.onDidChangeCursorPosition((e) => {
+    const model = editor.getModel();
+    const info = model ? findMacroParameterAtPosition(model, e.position) : null;
+    if (!info) {
+      macrosContextKey.set('');
+      return;
+    }
+    info.macros.forEach(registerAction);
+    macrosContextKey.set(`,${info.macros.map(m => m.key).join(',')},`);
+  });
+
+  return {
+    dispose: () => {
+      cursorDisposable.dispose();
+      actions.forEach(action => action.dispose());
+      actions.clear();
+    }
+  };
+}
@@ -1,6 +1,262 @@
 import { useEffect } from 'react';
 import * as monaco from 'monaco-editor';
-import { CUSTOM_FUNCTIONS, MARKER_TOKEN, LANGUAGE_ID } from '../../config';
+import { LANGUAGE_ID, TEMPLATE_LANGUAGE_ID } from '../../config';
+import { FunctionCatalog } from '../../services/functionCatalog';
+import { FunctionCallParser } from '../../services/functionCallParser';
+import { OverloadResolver } from '../../services/overloadResolver';
+import { CustomFunction, FunctionParameter, MacroDefinition } from '../../types';
+import { buildMarkerArguments, formatSignature } from '../../utils/signatureUtils';
+import { describeConstraints } from '../../utils/constraintUtils';
+import { buildReplacementCall } from '../../utils/migrationUtils';
+import { splitTopLevelArguments } from '../../utils/argumentUtils';
+import { findMacroParameterAtPosition } from '../../utils/macroUtils';
+import { DocumentSymbol, ScribanLanguageService } from '../../services/scribanLanguageService';
+import { ScribanParseService } from '../../services/scribanParseService';
+import { ScribanSymbolTable, VariableKind, VariableSymbol } from '../../services/scribanSymbolTable';
+
+// Providers serve editors in both modes
+const LANGUAGE_IDS = [LANGUAGE_ID, TEMPLATE_LANGUAGE_ID];
+
+const KEYWORDS = ['for', 'if', 'else', 'end', 'in', 'with', 'while', 'break', 'continue', 'ret', 'func', 'import', 'include', 'with', 'tablerow', 'raw', 'wrap', 'case', 'when', 'default', 'capture', 'readonly'];
+
+// Script mode tokens, also used inside template code blocks
+const SCRIPT_RULES: monaco.languages.IMonarchLanguageRule[] = [
+  [/[a-zA-Z_]\w*/, {
+    cases: {
+      '@keywords': 'keyword',
+      '@default': 'identifier'
+    }
+  }],
+  // Strings not closed on their line
+  [/\$?"([^"\\]|\\.)*$/, 'string.invalid'],
+  [/\$?'([^'\\]|\\.)*$/, 'string.invalid'],
+  [/\$"/, { token: 'string', next: '@interpolatedDouble' }],
+  [/\$'/, { token: 'string', next: '@interpolatedSingle' }],
+  [/"/, { token: 'string', next: '@stringDouble' }],
+  [/'/, { token: 'string', next: '@stringSingle' }],
+  [/`/, { token: 'string', next: '@verbatimString' }],
+  [/[0-9]+(\.[0-9]+)?/, 'number'],
+  [/\/\/.*$/, 'comment'],
+  [/#.*$/, 'comment'],
+  [/\/\*[\s\S]*?\*\//, 'comment'],
+  [/[+\-*/%=<>!&|]+/, 'operator'],
+  [/[()\[\]{}.,;:]/, 'delimiter'],
+  [/\s+/, 'white']
+];
+
+// States entered by SCRIPT_RULES for strings
+const STRING_STATES: Record<string, monaco.languages.IMonarchLanguageRule[]> = {
+  stringDouble: [
+    [/[^\\"]+/, 'string'],
+    [/\\./, 'string.escape'],
+    [/"/, { token: 'string', next: '@pop' }]
+  ],
+  stringSingle: [
+    [/[^\\']+/, 'string'],
+    [/\\./, 'string.escape'],
+    [/'/, { token: 'string', next: '@pop' }]
+  ],
+  // No escapes; a doubled backtick is a backtick
+  verbatimString: [
+    [/[^`]+/, 'string'],
+    [/``/, 'string.escape'],
+    [/`/, { token: 'string', next: '@pop' }]
+  ],
+  interpolatedDouble: [
+    [/[^\\"{]+/, 'string'],
+    [/\\./, 'string.escape'],
+    [/\{/, { token: 'delimiter.bracket', next: '@interpolation' }],
+    [/"/, { token: 'string', next: '@pop' }]
+  ],
+  interpolatedSingle: [
+    [/[^\\'{]+/, 'string'],
+    [/\\./, 'string.escape'],
+    [/\{/, { token: 'delimiter.bracket', next: '@interpolation' }],
+    [/'/, { token: 'string', next: '@pop' }]
+  ],
+  interpolation: [
+    [/\}/, { token: 'delimiter.bracket', next: '@pop' }],
+    ...SCRIPT_RULES
+  ]
+};
+
+const SYMBOL_KINDS: Record<DocumentSymbol['kind'], monaco.languages.SymbolKind> = {
+  function: monaco.languages.SymbolKind.Function,
+  variable: monaco.languages.SymbolKind.Variable,
+  block: monaco.languages.SymbolKind.Object
+};
+
+/**
+ * Convert an outline symbol (document offsets) to a Monaco document symbol.
+ */
+function toMonacoSymbol(model: monaco.editor.ITextModel, symbol: DocumentSymbol): monaco.languages.DocumentSymbol {
+  const toRange = (range: { start: number; end: number }) =>
+    monaco.Range.fromPositions(model.getPositionAt(range.start), model.getPositionAt(range.end));
+  return {
+    name: symbol.name,
+    detail: symbol.detail,
+    kind: SYMBOL_KINDS[symbol.kind],
+    tags: [],
+    range: toRange(symbol.range),
+    selectionRange: toRange(symbol.selectionRange),
+    children: symbol.children.map(child => toMonacoSymbol(model, child))
+  };
+}
+
+/**
+ * Markdown documentation of a parameter for signature help; enum parameters list their values,
+ * constrained parameters show their constraints.
+ */
+function getParameterDocumentation(param: FunctionParameter): string {
+  const constraints = param.constraints ? describeConstraints(param.constraints) : '';
+  const description = [param.description, constraints && `Constraints: ${constraints}`].filter(Boolean).join('\n\n');
+  if (param.type !== 'enum' || !param.options) return description;
+
+  const values = param.options
+    .map(option => option.description ? `- \`"${option.value}"\` - ${option.description}` : `- \`"${option.value}"\``)
+    .join('\n');
+  return description ? `${description}\n\n${values}` : values;
+}
+
+/**
+ * Markdown warning for a deprecated function, naming the replacement if there is one.
+ */
+function getDeprecationWarning(func: CustomFunction): string {
+  const replacement = func.deprecated?.replacement ? ` Use \`${func.deprecated.replacement}\` instead.` : '';
+  return `⚠️ **Deprecated**: ${func.deprecated?.message ?? ''}${replacement}`;
+}
+
+/**
+ * Build the quick fix that rewrites a deprecated call (reported on its name) to the replacement function.
+ * Returns null if the call is not closed, is parenless or piped, has no replacement, or its arguments cannot be mapped.
+ */
+function createReplacementAction(
+  model: monaco.editor.ITextModel,
+  marker: monaco.editor.IMarkerData
+): monaco.languages.CodeAction | null {
+  const lineNumber = marker.startLineNumber;
+  const lineText = model.getLineContent(lineNumber);
+  const openParenIndex = lineText.indexOf('(', marker.endColumn - 1);
+  if (openParenIndex < 0 || lineText.substring(marker.endColumn - 1, openParenIndex).trim() !== '') {
+    return null;
+  }
+
+  const parsed = FunctionCallParser.parseAtPosition(model, new monaco.Position(lineNumber, openParenIndex + 2));
+  const replacementName = parsed?.functionDef.deprecated?.replacement;
+  const replacement = replacementName ? FunctionCatalog.findFunction(replacementName) : undefined;
+  // Only calls with parentheses are rewritten; a piped value would need to move into the arguments
+  if (!parsed || !parsed.openParenRange || !parsed.closeParenRange || parsed.isPiped || !replacement) {
+    return null;
+  }
+
+  const argsText = model.getValueInRange(
+    monaco.Range.fromPositions(parsed.openParenRange.getEndPosition(), parsed.closeParenRange.getStartPosition())
+  );
+  const text = buildReplacementCall(
+    parsed.overload.parameters,
+    splitTopLevelArguments(argsText).map(arg => arg.text),
+    replacement
+  );
+  if (!text) {
+    return null;
+  }
+
+  return {
+    title: `Replace with ${replacement.name}(...)`,
+    kind: 'quickfix',
+    diagnostics: [marker],
+    isPreferred: true,
+    edit: {
+      edits: [{
+        resource: model.uri,
+        textEdit: { range: parsed.fullRange, text },
+        versionId: model.getVersionId()
+      }]
+    }
+  };
+}
+
+/**
+ * Build a completion item that inserts a function call with parameter markers.
+ * Path and enum parameters get quoted markers so the picker can open for them.
+ * Trailing optional parameters are left out.
+ */
+function createFunctionCompletion(
+  func: CustomFunction,
+  label: string,
+  range: monaco.IRange
+): monaco.languages.CompletionItem {
+  const insertText = `${label}(${buildMarkerArguments(func.parameters)})`;
+
+  return {
+    label,
+    kind: monaco.languages.CompletionItemKind.Function,
+    documentation: {
+      value: func.deprecated ? `${getDeprecationWarning(func)}\n\n${func.doc}` : func.doc,
+      isTrusted: true
+    },
+    // Deprecated functions are struck through and listed after the others
+    tags: func.deprecated ? [monaco.languages.CompletionItemTag.Deprecated] : undefined,
+    sortText: func.deprecated ? `~${label}` : label,
+    detail: func.overloads?.length
+      ? `${func.signature} (+${func.overloads.length} overload${func.overloads.length > 1 ? 's' : ''})`
+      : func.signature,
+    insertText,
+    range,
+    insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet
+  } as monaco.languages.CompletionItem;
+}
+
+const VARIABLE_KIND_DETAILS: Record<VariableKind, string> = {
+  variable: 'variable',
+  loop: 'loop variable',
+  parameter: 'parameter',
+  function: 'function'
+};
+
+/**
+ * Build a completion item for a variable or function of the script, with its inferred type if known.
+ */
+function createVariableCompletion(
+  symbol: VariableSymbol,
+  type: string | undefined,
+  range: monaco.IRange
+): monaco.languages.CompletionItem {
+  return {
+    label: symbol.name,
+    kind: symbol.kind === 'function'
+      ? monaco.languages.CompletionItemKind.Function
+      : monaco.languages.CompletionItemKind.Variable,
+    detail: type ? `${VARIABLE_KIND_DETAILS[symbol.kind]}: ${type}` : VARIABLE_KIND_DETAILS[symbol.kind],
+    insertText: symbol.name,
+    range
+  };
+}
+
+/**
+ * Build the completion items for the macros of a string parameter, inserted at the cursor.
+ * Braces typed just before the cursor (to trigger the list) are replaced by the macro.
+ */
+function createMacroCompletions(
+  model: monaco.editor.ITextModel,
+  position: monaco.Position,
+  macros: MacroDefinition[]
+): monaco.languages.CompletionItem[] {
+  const textBefore = model.getLineContent(position.lineNumber).substring(0, position.column - 1);
+  const braces = textBefore.match(/\{{0,2}$/)![0].length;
+  const range = new monaco.Range(position.lineNumber, position.column - braces, position.lineNumber, position.column);
+
+  return macros.map((macro, index) => ({
+    label: macro.label,
+    kind: monaco.languages.CompletionItemKind.Snippet,
+    detail: macro.text,
+    documentation: `Insert ${macro.label}`,
+    insertText: macro.text,
+    filterText: textBefore.substring(textBefore.length - braces) + macro.label,
+    sortText: String(index).padStart(3, '0'),
+    range
+  }));
+}
 
 /**
  * Hook to set up Scriban language support in Monaco Editor.
@@ -9,36 +265,57 @@ import { CUSTOM_FUNCTIONS, MARKER_TOKEN, LANGUAGE_ID } from '../../config';
  */
 export function useMonacoLanguageSetup() {
   useEffect(() => {
-    // Register the Scriban language
+    // Register the Scriban languages (script mode and template mode)
     monaco.languages.register({ id: LANGUAGE_ID });
+    monaco.languages.register({ id: TEMPLATE_LANGUAGE_ID });
 
-    // Set up syntax highlighting tokenizer
+    // Set up syntax highlighting tokenizers
     monaco.languages.setMonarchTokensProvider(LANGUAGE_ID, {
+      tokenizer: {
+        root: SCRIPT_RULES,
+        ...STRING_STATES
+      },
+      keywords: KEYWORDS
+    });
+
+    // Template mode: plain text, code in {{ }} / {{~ ~}}, verbatim text in {%{ }%}
+    monaco.languages.setMonarchTokensProvider(TEMPLATE_LANGUAGE_ID, {
       tokenizer: {
         root: [
-          [/[a-zA-Z_]\w*/, {
-            cases: {
-              '@keywords': 'keyword',
-              '@default': 'identifier'
-            }
-          }],
-          [/"[^"]*"/, 'string'],
-          [/'[^']*'/, 'string'],
-          [/[0-9]+(\.[0-9]+)?/, 'number'],
-          [/\/\/.*$/, 'comment'],
-          [/\/\*[\s\S]*?\*\//, 'comment'],
-          [/[+\-*/%=<>!&|]+/, 'operator'],
-          [/[()\[\]{}.,;:]/, 'delimiter'],
-          [/\s+/, 'white']
-        ]
+          [/\{%\{/, { token: 'delimiter.bracket', next: '@escapeBlock' }],
+          [/\{\{[~-]?/, { token: 'delimiter.bracket', next: '@codeBlock' }],
+          [/[^{]+/, ''],
+          [/\{/, '']
+        ],
+        codeBlock: [
+          [/[~-]?\}\}/, { token: 'delimiter.bracket', next: '@pop' }],
+          // Line comments end at the closing delimiter
+          [/(#|\/\/).*?(?=[~-]?\}\})/, 'comment'],
+          ...SCRIPT_RULES
+        ],
+        escapeBlock: [
+          [/\}%\}/, { token: 'delimiter.bracket', next: '@pop' }],
+          [/[^}]+/, 'string.raw'],
+          [/\}/, 'string.raw']
+        ],
+        ...STRING_STATES
       },
-      keywords: ['for', 'if', 'else', 'end', 'in', 'with', 'while', 'break', 'continue', 'ret', 'func', 'import', 'include', 'with', 'tablerow', 'raw', 'wrap', 'case', 'when', 'default']
+      keywords: KEYWORDS
     });
 
     // Register completion provider (auto-complete)
-    monaco.languages.registerCompletionItemProvider(LANGUAGE_ID, {
-      triggerCharacters: ['(', '.'],
-      provideCompletionItems: (model, position) => {
+    monaco.languages.registerCompletionItemProvider(LANGUAGE_IDS, {
+      triggerCharacters: ['(', '.', '{'],
+      provideCompletionItems: (model, position, context) => {
+        // Inside a string whose parameter offers macros, only the macros are suggested
+        const macroInfo = findMacroParameterAtPosition(model, position);
+        if (macroInfo) {
+          return { suggestions: createMacroCompletions(model, position, macroInfo.macros) };
+        }
+        if (context.triggerCharacter === '{') {
+          return { suggestions: [] };
+        }
+
         const word = model.getWordUntilPosition(position);
         const range = {
           startLineNumber: position.lineNumber,
@@ -47,36 +324,37 @@ export function useMonacoLanguageSetup() {
           endColumn: word.endColumn
         };
 
-        const suggestions = CUSTOM_FUNCTIONS.map(func => {
-          const pathParams = func.parameters.filter(p => p.type === 'path');
-          const nonPathParams = func.parameters.filter(p => p.type !== 'path');
-
-          let insertText = `${func.name}(`;
-          const parts: string[] = [];
-
-          pathParams.forEach(() => {
-            parts.push(`"${MARKER_TOKEN}"`);
-          });
-
-          nonPathParams.forEach(() => {
-            parts.push(MARKER_TOKEN);
-          });
+        // Nothing inside strings, comments and template text; members after "namespace."
+        const completionContext = ScribanLanguageService.getCompletionContext(
+          ScribanParseService.get(model).parse,
+          model.getOffsetAt(position)
+        );
+        if (completionContext.kind === 'none') {
+          return { suggestions: [] };
+        }
+        if (completionContext.kind === 'member') {
+          const namespace = FunctionCatalog.findNamespace(completionContext.objectName);
+          if (!namespace) {
+            return { suggestions: [] };
+          }
+          return {
+            suggestions: FunctionCatalog.getMembers(namespace.name).map(func =>
+              createFunctionCompletion(func, FunctionCatalog.getMemberName(func), range)
+            )
+          };
+        }
 
-          insertText += parts.join(', ') + ')';
+        const suggestions = FunctionCatalog.getGlobalFunctions().map(func =>
+          createFunctionCompletion(func, func.name, range)
+        );
 
-          return {
-            label: func.name,
-            kind: monaco.languages.CompletionItemKind.Function,
-            documentation: {
-              value: func.doc,
-              isTrusted: true
-            },
-            detail: func.signature,
-            insertText,
-            range,
-            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet
-          } as monaco.languages.CompletionItem;
-        });
+        const namespaceSuggestions = FunctionCatalog.getNamespaces().map(ns => ({
+          label: ns.name,
+          kind: monaco.languages.CompletionItemKind.Module,
+          documentation: { value: ns.doc, isTrusted: true },
+          insertText: ns.name,
+          range
+        } as monaco.languages.CompletionItem));
 
         const builtInKeywords = [
           { label: 'for', kind: monaco.languages.CompletionItemKind.Keyword, insertText: 'for ${1:item} in ${2:collection}\n  $0\nend', insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet },
@@ -84,45 +362,52 @@ export function useMonacoLanguageSetup() {
           { label: 'while', kind: monaco.languages.CompletionItemKind.Keyword, insertText: 'while ${1:condition}\n  $0\nend', insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet }
         ];
 
+        // Block keywords only start statements
+        const keywordSuggestions = completionContext.kind === 'statement'
+          ? builtInKeywords.map(k => ({ ...k, range }))
+          : [];
+
+        // Variables, loop variables, parameters and functions of the script in scope at the cursor
+        const offset = model.getOffsetAt(position);
+        const types = ScribanParseService.getTypes(model);
+        const variableSuggestions = ScribanSymbolTable.getVisibleSymbols(ScribanParseService.getSymbols(model), offset)
+          .filter(symbol => !FunctionCatalog.findFunction(symbol.name) && symbol.declaration.end !== offset)
+          .map(symbol => createVariableCompletion(symbol, types.getType(symbol, offset)?.type, range));
+
         return {
-          suggestions: [...suggestions, ...builtInKeywords.map(k => ({ ...k, range }))]
+          suggestions: [...variableSuggestions, ...suggestions, ...namespaceSuggestions, ...keywordSuggestions]
         };
       }
     });
 
     // Register signature help provider (parameter hints)
-    monaco.languages.registerSignatureHelpProvider(LANGUAGE_ID, {
-      signatureHelpTriggerCharacters: ['(', ','],
+    monaco.languages.registerSignatureHelpProvider(LANGUAGE_IDS, {
+      // A space starts the next argument of a parenless call
+      signatureHelpTriggerCharacters: ['(', ',', ' '],
       provideSignatureHelp: (model, position) => {
-        const textUntilPosition = model.getValueInRange({
-          startLineNumber: 1,
-          startColumn: 1,
-          endLineNumber: position.lineNumber,
-          endColumn: position.column
-        });
-
-        const match = textUntilPosition.match(/([a-zA-Z_]\w*)\s*\([^)]*$/);
-        if (!match) return null;
-
-        const funcName = match[1];
-        const func = CUSTOM_FUNCTIONS.find(f => f.name === funcName);
-        if (!func) return null;
+        const parsed = FunctionCallParser.parseAtPosition(model, position);
+        if (!parsed) return null;
 
-        const commaCount = (textUntilPosition.match(/,/g) || []).length;
-        const activeParameter = commaCount;
+        const signatures = OverloadResolver.getSignatures(parsed.functionDef);
+        const activeParameter = FunctionCallParser.getArgumentIndexAtPosition(model, parsed, position);
 
         return {
           value: {
-            signatures: [{
-              label: func.signature,
-              documentation: { value: func.doc, isTrusted: true },
-              parameters: func.parameters.map(p => ({
-                label: p.name,
-                documentation: { value: p.description || '', isTrusted: true }
-              }))
-            }],
-            activeSignature: 0,
-            activeParameter: Math.min(activeParameter, func.parameters.length - 1)
+            signatures: signatures.map(overload => {
+              // Optional parameters render as [name = default]
+              const formatted = formatSignature(parsed.functionName, overload.parameters);
+              return {
+                label: formatted.label,
+                documentation: { value: overload.doc ?? parsed.functionDef.doc, isTrusted: true },
+                parameters: overload.parameters.map((p, index) => ({
+                  label: formatted.parameterOffsets[index],
+                  documentation: { value: getParameterDocumentation(p), isTrusted: true }
+                }))
+              };
+            }),
+            activeSignature: parsed.overloadIndex,
+            // Arguments past the end stay on the last parameter, so a rest parameter remains highlighted
+            activeParameter: Math.min(activeParameter, Math.max(parsed.overload.parameters.length - 1, 0))
           },
           dispose: () => {}
         };
@@ -130,28 +415,93 @@ export function useMonacoLanguageSetup() {
     });
 
     // Register hover provider (documentation on hover)
-    monaco.languages.registerHoverProvider(LANGUAGE_ID, {
+    monaco.languages.registerHoverProvider(LANGUAGE_IDS, {
       provideHover: (model, position) => {
         const word = model.getWordAtPosition(position);
-        if (!word) return null;
+        if (!word || !ScribanParseService.isCodePosition(model, position)) return null;
 
-        const func = CUSTOM_FUNCTIONS.find(f => f.name === word.word);
-        if (!func) return null;
+        const lineText = model.getLineContent(position.lineNumber);
+        const qualified = FunctionCallParser.getQualifiedNameAt(lineText, word.startColumn, word.endColumn);
+        const hoverRange = new monaco.Range(
+          position.lineNumber,
+          qualified.startColumn,
+          position.lineNumber,
+          word.endColumn
+        );
+
+        const namespace = FunctionCatalog.findNamespace(qualified.name);
+        if (namespace) {
+          const members = FunctionCatalog.getMembers(namespace.name).map(f => `\`${FunctionCatalog.getMemberName(f)}\``);
+          return {
+            range: hoverRange,
+            contents: [
+              { value: `**${namespace.name}** (object)`, isTrusted: true },
+              { value: namespace.doc, isTrusted: true },
+              { value: `Members: ${members.join(', ')}`, isTrusted: true }
+            ]
+          };
+        }
+
+        const func = FunctionCatalog.findFunction(qualified.name);
+        if (!func) {
+          // Variables show the type inferred from their latest assignment (in the scope of the hovered name)
+          const offset = model.getOffsetAt(position);
+          const symbol = ScribanSymbolTable.getSymbolAt(ScribanParseService.getSymbols(model), offset);
+          const variable = symbol ? ScribanParseService.getTypes(model).getTypeAt(symbol, offset) : undefined;
+          if (!variable) return null;
+
+          return {
+            range: hoverRange,
+            contents: [
+              { value: `**${variable.name}**: ${variable.type}`, isTrusted: true },
+              { value: `Inferred from the assignment on line ${variable.line}`, isTrusted: true }
+            ]
+          };
+        }
 
         return {
-          range: new monaco.Range(
-            position.lineNumber,
-            word.startColumn,
-            position.lineNumber,
-            word.endColumn
-          ),
+          range: hoverRange,
           contents: [
             { value: `**${func.name}**`, isTrusted: true },
-            { value: func.signature, isTrusted: true },
-            { value: func.doc, isTrusted: true }
+            ...OverloadResolver.getSignatures(func).map(overload => ({ value: overload.signature, isTrusted: true })),
+            ...(func.deprecated ? [{ value: getDeprecationWarning(func), isTrusted: true }] : []),
+            { value: func.doc, isTrusted: true },
+            ...(func.returnType ? [{ value: `Returns: \`${func.returnType}\``, isTrusted: true }] : [])
           ]
         };
       }
     });
+
+    // Register folding range provider (blocks, multi-line calls, block comments)
+    monaco.languages.registerFoldingRangeProvider(LANGUAGE_IDS, {
+      provideFoldingRanges: (model) => {
+        const { text, parse } = ScribanParseService.get(model);
+        return ScribanLanguageService.getFoldingRegions(text, parse).map(region => ({
+          start: region.startLine,
+          end: region.endLine,
+          kind: region.kind === 'comment' ? monaco.languages.FoldingRangeKind.Comment : undefined
+        }));
+      }
+    });
+
+    // Register document symbol provider (outline: functions, variables, blocks)
+    monaco.languages.registerDocumentSymbolProvider(LANGUAGE_IDS, {
+      provideDocumentSymbols: (model) => {
+        const { text, parse } = ScribanParseService.get(model);
+        return ScribanLanguageService.getDocumentSymbols(text, parse)
+          .map(symbol => toMonacoSymbol(model, symbol));
+      }
+    });
+
+    // Register code action provider (quick fixes for deprecated calls)
+    monaco.languages.registerCodeActionProvider(LANGUAGE_IDS, {
+      provideCodeActions: (model, _range, context) => {
+        const actions = context.markers
+          .filter(marker => marker.code === 'deprecated')
+          .map(marker => createReplacementAction(model, marker))
+          .filter((action): action is monaco.languages.CodeAction => action !== null);
+        return { actions, dispose: () => {} };
+      }
+    });
   }, []); // Empty dependency array - only run once on mount
 }
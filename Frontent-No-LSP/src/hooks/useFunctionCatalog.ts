@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from 'react';
+import { FunctionCatalog } from '../services/functionCatalog';
+import { CustomFunction } from '../types';
+
+const subscribe = (listener: () => void) => FunctionCatalog.subscribe(listener);
+const getSnapshot = () => FunctionCatalog.getFunctions();
+
+/**
+ * Functions of the catalog, re-rendering the component whenever the catalog changes.
+ */
+export function useFunctionCatalog(): CustomFunction[] {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
@@ -1,7 +1,7 @@
 import { useEffect, useRef } from 'react';
 import * as monaco from 'monaco-editor';
 import { MARKER_TOKEN, LANGUAGE_ID } from '../config';
-import { Diagnostic } from '../types';
+import { CustomFunction, Diagnostic, ScribanMode } from '../types';
 import { FunctionCallParser } from '../services/functionCallParser';
 import { RangeUtils } from '../services/rangeUtils';
 import { TIMING } from '../constants/timing';
@@ -9,14 +9,20 @@ import { MarkerDetectionService, MarkerInfo } from '../services/markerDetectionS
 import { AutoInsertionService } from '../services/autoInsertionService';
 import { useMonacoLanguageSetup } from './monaco/useMonacoLanguageSetup';
 import { setupMonacoClickHandler, ParameterClickInfo } from './monaco/setupMonacoClickHandler';
+import { setupMonacoMacroActions } from './monaco/setupMonacoMacroActions';
 import { DebugLogger } from '../utils/debugLogger';
+import { buildMarkerArguments } from '../utils/signatureUtils';
 import { CtrlSpaceHandlerService } from '../services/ctrlSpaceHandlerService';
+import { FunctionCatalog } from '../services/functionCatalog';
+import { ScribanParseService } from '../services/scribanParseService';
 import { DelayedCallback, delayedMarkerDetection, delayedCallback, cancelDelayedCallback } from '../utils/timingUtils';
+import { getLanguageIdForMode } from '../utils/scribanModeUtils';
+import { formatStringLiteral } from '../utils/stringLiteralUtils';
 
 interface UseMonacoEditorOptions {
   onMarkerDetected: (info: MarkerInfo) => void;
   onParameterClick: (info: ParameterClickInfo) => void;
-  onValidation: (script: string) => Promise<void>;
+  onValidation: (script: string, versionId?: number) => Promise<void>;
   onManualTyping?: () => void;
 }
 
@@ -28,13 +34,15 @@ export function useMonacoEditor(
   const markerDetectionRef = useRef<boolean>(false);
   const previousContentLengthRef = useRef<number>(0);
   const controlsRef = useRef<{
-    replaceParameter: (functionName: string, parameterIndex: number, text: string, nearPosition?: monaco.Position) => void;
-    setDiagnostics: (diagnostics: Diagnostic[]) => void;
+    replaceParameter: (functionName: string, parameterIndex: number, value: string, nearPosition?: monaco.Position) => void;
+    setDiagnostics: (diagnostics: Diagnostic[], versionId?: number) => void;
     getMarkerPosition: (range: monaco.Range) => { x: number; y: number } | null;
     getModel: () => monaco.editor.ITextModel | null;
     getEditor: () => monaco.editor.IStandaloneCodeEditor | null;
     deselectAndPositionCursor: (range: monaco.Range) => void;
     triggerMarkerDetection: () => void;
+    insertFunctionCall: (func: CustomFunction) => void;
+    setMode: (mode: ScribanMode) => void;
   } | null>(null);
 
   // Set up Scriban language support (tokenizer, completion, signature help, hover)
@@ -115,6 +123,13 @@ export function useMonacoEditor(
         return;
       }
 
+      // In template mode, typing in the text around code blocks never inserts markers or opens pickers
+      if (!ScribanParseService.isCodePosition(model, position)) {
+        DebugLogger.contentChange('Position is outside of a code block, only running validation');
+        debouncedValidation(currentContent);
+        return;
+      }
+
       // Auto-detect function calls: when user types "functionName("
       const lineText = model.getLineContent(position.lineNumber);
       const cursorOffset = position.column - 1;
@@ -201,24 +216,34 @@ export function useMonacoEditor(
       debouncedValidation(currentContent);
     });
 
+    // The version is read together with the text, so the diagnostics are applied to the text they were computed for
+    const validate = (text: string, versionId = editor.getModel()?.getVersionId()) => options.onValidation(text, versionId);
+
     let validationTimer: DelayedCallback | null = null;
     const debouncedValidation = (text: string) => {
+      const versionId = editor.getModel()?.getVersionId();
       cancelDelayedCallback(validationTimer);
       validationTimer = delayedCallback(() => {
-        options.onValidation(text);
+        validate(text, versionId);
       }, TIMING.VALIDATION_DEBOUNCE);
     };
 
-    options.onValidation(editor.getValue());
+    validate(editor.getValue());
 
-    const replaceParameter = (functionName: string, parameterIndex: number, text: string, nearPosition?: monaco.Position) => {
+    // Diagnostics depend on the catalog: re-validate when functions are registered or removed
+    const unsubscribeCatalog = FunctionCatalog.subscribe(() => {
+      validate(editor.getValue());
+    });
+
+    // Writes `value` as a string literal, escaped for the quote style the argument already uses
+    const replaceParameter = (functionName: string, parameterIndex: number, value: string, nearPosition?: monaco.Position) => {
       const model = editor.getModel();
       if (!model) {
         console.error('[REPLACE_PARAMETER] No model available');
         return;
       }
 
-      DebugLogger.replaceParameter('Replacing parameter:', { functionName, parameterIndex, text, nearPosition });
+      DebugLogger.replaceParameter('Replacing parameter:', { functionName, parameterIndex, value, nearPosition });
 
       // Find the function call using fresh document state
       const parsed = FunctionCallParser.findFunctionCallByName(model, functionName, nearPosition);
@@ -236,6 +261,7 @@ export function useMonacoEditor(
       // Get the parameter and calculate fresh range
       const param = parsed.parameters[parameterIndex];
       const actualRange = RangeUtils.getReplacementRange(param);
+      const text = formatStringLiteral(value, param.quote ?? '"');
 
       DebugLogger.replaceParameter('Replacing range:', actualRange, 'with text:', text);
 
@@ -243,9 +269,8 @@ export function useMonacoEditor(
       skipNextMarkerDetection = true;
 
       // Calculate cursor position after insertion (after the inserted text)
-      const endLine = actualRange.endLineNumber;
       const endColumn = actualRange.startColumn + text.length;
-      const cursorPosition = new monaco.Position(endLine, endColumn);
+      const cursorPosition = new monaco.Position(actualRange.startLineNumber, endColumn);
 
       // Perform the replacement
       model.pushEditOperations(
@@ -270,9 +295,14 @@ export function useMonacoEditor(
       }, 0);
     };
 
-    const setDiagnostics = (diagnostics: Diagnostic[]) => {
+    // With `versionId` (the model's version the diagnostics were computed for), outdated results are dropped
+    const setDiagnostics = (diagnostics: Diagnostic[], versionId?: number) => {
       const model = editor.getModel();
       if (!model) return;
+      if (versionId !== undefined && versionId !== model.getVersionId()) {
+        DebugLogger.general('[VALIDATION] Dropping diagnostics of version', versionId, 'current is', model.getVersionId());
+        return;
+      }
 
       const markers = diagnostics.map(d => ({
         startLineNumber: d.startLine,
@@ -282,7 +312,19 @@ export function useMonacoEditor(
         message: d.message,
         severity: d.severity === 'error'
           ? monaco.MarkerSeverity.Error
-          : monaco.MarkerSeverity.Warning
+          : monaco.MarkerSeverity.Warning,
+        code: d.code,
+        tags: d.tags?.map(tag => tag === 'deprecated'
+          ? monaco.MarkerTag.Deprecated
+          : monaco.MarkerTag.Unnecessary),
+        relatedInformation: d.relatedInformation?.map(related => ({
+          resource: model.uri,
+          message: related.message,
+          startLineNumber: related.startLine,
+          startColumn: related.startCol,
+          endLineNumber: related.endLine,
+          endColumn: related.endCol
+        }))
       }));
 
       monaco.editor.setModelMarkers(model, LANGUAGE_ID, markers);
@@ -309,6 +351,9 @@ export function useMonacoEditor(
       onParameterClick: options.onParameterClick
     });
 
+    // Context menu entries for inserting macros inside string parameters
+    const macroActionsDisposable = setupMonacoMacroActions(editor);
+
     // Handle Enter key to close picker
     const keyDownDisposable = editor.onKeyDown((e) => {
       // Close picker when Enter is pressed in the editor
@@ -347,6 +392,47 @@ export function useMonacoEditor(
       );
     };
 
+    const insertFunctionCall = (func: CustomFunction) => {
+      const model = editor.getModel();
+      const selection = editor.getSelection();
+      if (!model || !selection) return;
+
+      // Same text as the completion item: markers for the required parameters.
+      // In template text the call gets its own code block.
+      const prefix = ScribanParseService.isCodePosition(model, selection.getStartPosition()) ? '' : '{{ ';
+      const call = `${func.name}(${buildMarkerArguments(func.parameters)})`;
+      const text = prefix ? `${prefix}${call} }}` : call;
+      skipNextMarkerDetection = true;
+      editor.executeEdits('function-browser', [{ range: selection, text, forceMoveMarkers: true }]);
+      editor.focus();
+
+      if (text.includes(`"${MARKER_TOKEN}"`)) {
+        // Picker parameters: open the picker for the first marker
+        delayedMarkerDetection(() => triggerMarkerDetection());
+        return;
+      }
+
+      // No picker parameters: select the first marker (or place the cursor inside the parentheses)
+      const openParenColumn = selection.startColumn + prefix.length + func.name.length + 1;
+      const markerIndex = text.indexOf(MARKER_TOKEN);
+      editor.setSelection(markerIndex >= 0
+        ? new monaco.Selection(
+            selection.startLineNumber,
+            selection.startColumn + markerIndex,
+            selection.startLineNumber,
+            selection.startColumn + markerIndex + MARKER_TOKEN.length
+          )
+        : new monaco.Selection(selection.startLineNumber, openParenColumn, selection.startLineNumber, openParenColumn));
+    };
+
+    // The mode is the model's language, so tokenizer and providers follow it
+    const setMode = (mode: ScribanMode) => {
+      const model = editor.getModel();
+      if (!model) return;
+      monaco.editor.setModelLanguage(model, getLanguageIdForMode(mode));
+      validate(model.getValue());
+    };
+
         controlsRef.current = {
           replaceParameter,
           setDiagnostics,
@@ -354,7 +440,9 @@ export function useMonacoEditor(
           getModel: () => editor.getModel(),
           getEditor: () => editor,
           deselectAndPositionCursor,
-          triggerMarkerDetection
+          triggerMarkerDetection,
+          insertFunctionCall,
+          setMode
         };
 
         // Add Ctrl+Space command to open picker when cursor is in a parameter
@@ -404,6 +492,38 @@ export function useMonacoEditor(
             return true; // Handled
           }
 
+          if (result.action === 'insert-argument') {
+            // Append the next argument; path markers open the picker, other values get selected
+            skipNextMarkerDetection = true;
+            model.pushEditOperations(
+              [],
+              [{
+                range: result.range!,
+                text: result.insertText!
+              }],
+              () => null
+            );
+
+            const selection = result.selection!;
+            if (model.getValueInRange(selection) === `"${MARKER_TOKEN}"`) {
+              delayedMarkerDetection(() => {
+                MarkerDetectionService.detectAndOpenPicker(
+                  model,
+                  options.onMarkerDetected,
+                  markerDetectionRef
+                );
+              });
+            } else {
+              editor.setSelection(new monaco.Selection(
+                selection.startLineNumber,
+                selection.startColumn,
+                selection.endLineNumber,
+                selection.endColumn
+              ));
+            }
+            return true; // Handled
+          }
+
           return false; // Not handled, allow default
         };
 
@@ -422,6 +542,8 @@ export function useMonacoEditor(
       return () => {
         disposable.dispose();
         clickDisposable.dispose();
+        macroActionsDisposable.dispose();
+        unsubscribeCatalog();
         keyDownDisposable.dispose();
         editor.dispose();
         if (validationTimer) clearTimeout(validationTimer);
@@ -432,14 +554,16 @@ export function useMonacoEditor(
 
   return {
     editor: editorRef.current,
-    replaceParameter: (functionName: string, parameterIndex: number, text: string, nearPosition?: monaco.Position) =>
-      controlsRef.current?.replaceParameter(functionName, parameterIndex, text, nearPosition),
-    setDiagnostics: (diagnostics: Diagnostic[]) => controlsRef.current?.setDiagnostics(diagnostics),
+    replaceParameter: (functionName: string, parameterIndex: number, value: string, nearPosition?: monaco.Position) =>
+      controlsRef.current?.replaceParameter(functionName, parameterIndex, value, nearPosition),
+    setDiagnostics: (diagnostics: Diagnostic[], versionId?: number) => controlsRef.current?.setDiagnostics(diagnostics, versionId),
     getMarkerPosition: (range: monaco.Range) => controlsRef.current?.getMarkerPosition(range) || null,
     getModel: () => editorRef.current?.getModel() || null,
     getEditor: () => editorRef.current,
     deselectAndPositionCursor: (range: monaco.Range) => controlsRef.current?.deselectAndPositionCursor(range),
-    triggerMarkerDetection: () => controlsRef.current?.triggerMarkerDetection()
+    triggerMarkerDetection: () => controlsRef.current?.triggerMarkerDetection(),
+    insertFunctionCall: (func: CustomFunction) => controlsRef.current?.insertFunctionCall(func),
+    setMode: (mode: ScribanMode) => controlsRef.current?.setMode(mode)
   };
 }
 
@@ -0,0 +1,159 @@
+import { ApiSpec, ApiSpecFunction, ApiSpecGlobal, ApiSpecParameter, CustomFunction, CustomNamespace, FunctionParameter, ParameterType } from '../types';
+import { ApiSpecValidator } from './apiSpecValidator';
+import { formatSignature } from '../utils/signatureUtils';
+
+/**
+ * Error thrown when an ApiSpec document cannot be loaded.
+ * `errors` holds the individual validation messages.
+ */
+export class ApiSpecLoadError extends Error {
+  constructor(message: string, public readonly errors: string[] = []) {
+    super(errors.length > 0 ? `${message}:\n  - ${errors.join('\n  - ')}` : message);
+    this.name = 'ApiSpecLoadError';
+  }
+}
+
+/**
+ * Functions and namespaces converted from an ApiSpec document.
+ */
+export interface ApiSpecCatalog {
+  functions: CustomFunction[];
+  namespaces: CustomNamespace[];
+}
+
+/**
+ * Loads ApiSpec documents (the format of the backend api-spec.json) and converts
+ * them into the CustomFunction metadata used by the No-LSP editor.
+ */
+export class ApiSpecLoader {
+  /**
+   * Fetch an ApiSpec file and convert it.
+   * Throws ApiSpecLoadError if the request fails or the document is invalid.
+   */
+  static async loadFromUrl(url: string): Promise<ApiSpecCatalog> {
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch (error) {
+      throw new ApiSpecLoadError(`Failed to fetch ApiSpec from "${url}": ${String(error)}`);
+    }
+
+    if (!response.ok) {
+      throw new ApiSpecLoadError(`Failed to fetch ApiSpec from "${url}": HTTP ${response.status}`);
+    }
+
+    let json: unknown;
+    try {
+      json = await response.json();
+    } catch (error) {
+      throw new ApiSpecLoadError(`ApiSpec at "${url}" is not valid JSON: ${String(error)}`);
+    }
+
+    return this.parse(json);
+  }
+
+  /**
+   * Validate an already parsed (or imported) ApiSpec document and convert it.
+   * Throws ApiSpecLoadError with all validation errors if the document is invalid.
+   */
+  static parse(json: unknown): ApiSpecCatalog {
+    const result = ApiSpecValidator.validate(json);
+
+    result.warnings.forEach(warning => console.warn(`[API_SPEC] ${warning}`));
+
+    if (!result.isValid) {
+      throw new ApiSpecLoadError('Invalid ApiSpec', result.errors);
+    }
+
+    return this.toCatalog(json as ApiSpec);
+  }
+
+  /**
+   * Convert a validated ApiSpec into CustomFunction entries.
+   * Object members become functions with a qualified name (`os.path_exists`).
+   */
+  static toCatalog(spec: ApiSpec): ApiSpecCatalog {
+    const functions: CustomFunction[] = [];
+    const namespaces: CustomNamespace[] = [];
+
+    for (const global of spec.globals) {
+      if (global.type === 'function') {
+        functions.push(this.toCustomFunction(global, global.name));
+      } else {
+        namespaces.push({ name: global.name, doc: global.hover });
+        for (const member of global.members ?? []) {
+          const func = this.toCustomFunction(member, `${global.name}.${member.name}`);
+          // Members without a category are grouped under their namespace in the function browser
+          functions.push({ ...func, category: func.category ?? global.name });
+        }
+      }
+    }
+
+    return { functions, namespaces };
+  }
+
+  private static toCustomFunction(entry: ApiSpecGlobal | ApiSpecFunction, name: string): CustomFunction {
+    const parameters = (entry.parameters ?? []).map(p => this.toFunctionParameter(p));
+
+    const func: CustomFunction = {
+      name,
+      doc: entry.hover,
+      signature: entry.signature ?? this.buildSignature(name, parameters),
+      parameters,
+      returnType: entry.returns,
+      deprecated: entry.deprecated,
+      category: entry.category,
+      tags: entry.tags,
+      examples: entry.examples
+    };
+
+    if (entry.overloads && entry.overloads.length > 0) {
+      func.overloads = entry.overloads.map(overload => {
+        const overloadParameters = overload.parameters.map(p => this.toFunctionParameter(p));
+        return {
+          signature: overload.signature ?? this.buildSignature(name, overloadParameters),
+          parameters: overloadParameters,
+          doc: overload.hover
+        };
+      });
+    }
+
+    return func;
+  }
+
+  private static buildSignature(name: string, parameters: FunctionParameter[]): string {
+    return formatSignature(name, parameters).label;
+  }
+
+  private static toFunctionParameter(param: ApiSpecParameter): FunctionParameter {
+    const type = this.toParameterType(param);
+
+    return {
+      name: param.name,
+      type,
+      optional: param.optional,
+      defaultValue: param.defaultValue,
+      description: param.description,
+      pathType: type === 'path' ? param.pathType ?? 'both' : undefined,
+      isSource: type === 'path' ? param.isSource : undefined,
+      rest: param.rest,
+      constraints: param.constraints,
+      macros: type === 'string' && param.macros && param.macros.length > 0 ? param.macros : undefined,
+      options: type === 'enum'
+        ? param.options!.map(value => ({ value, description: param.optionDescriptions?.[value] }))
+        : undefined
+    };
+  }
+
+  /**
+   * Text parameters with an enum-list picker become enum parameters; other constants are plain strings.
+   * Non-text types keep their type (e.g. a boolean with options ["true", "false"]).
+   */
+  private static toParameterType(param: ApiSpecParameter): ParameterType {
+    const isText = param.type === 'constant' || param.type === 'string';
+    if (isText && param.picker === 'enum-list' && param.options && param.options.length > 0) {
+      return 'enum';
+    }
+    return param.type === 'constant' ? 'string' : param.type;
+  }
+}
@@ -0,0 +1,398 @@
+import { ApiSpecValidationResult } from '../types';
+
+const GLOBAL_TYPES = ['object', 'function'];
+const PARAMETER_TYPES = ['path', 'constant', 'string', 'number', 'boolean', 'any'];
+const PICKERS = ['file-picker', 'enum-list', 'none'];
+const PATH_TYPES = ['file', 'folder', 'both'];
+const TEXT_TYPES = ['string', 'constant', 'path'];
+const RETURN_TYPES = ['path', 'string', 'number', 'boolean', 'array', 'any', 'void'];
+const RESERVED_NAMES = ['for', 'if', 'end', 'else', 'while', 'func', 'ret'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+const findDuplicates = (names: string[], ignoreCase: boolean): string[] => {
+  const seen = new Map<string, number>();
+  for (const name of names) {
+    const key = ignoreCase ? name.toLowerCase() : name;
+    seen.set(key, (seen.get(key) ?? 0) + 1);
+  }
+  return [...seen.entries()].filter(([, count]) => count > 1).map(([name]) => name);
+};
+
+/**
+ * Validates an ApiSpec document (usually freshly parsed JSON) before it is converted
+ * into CustomFunction metadata.
+ * Mirrors the rules of the backend ApiSpecValidator so both frontends accept the same files.
+ * Every message carries a context path such as `Global 'os'.path_exists.param[0](path)`.
+ */
+export class ApiSpecValidator {
+  static validate(spec: unknown): ApiSpecValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!isObject(spec) || !Array.isArray(spec.globals)) {
+      errors.push("ApiSpec must have a 'globals' array");
+      return { isValid: false, errors, warnings };
+    }
+
+    if (spec.globals.length === 0) {
+      errors.push('ApiSpec must have at least one global entry');
+      return { isValid: false, errors, warnings };
+    }
+
+    const globalNames = spec.globals
+      .filter(isObject)
+      .map(g => g.name)
+      .filter(isNonEmptyString);
+
+    const duplicateGlobals = findDuplicates(globalNames, true);
+    if (duplicateGlobals.length > 0) {
+      errors.push(`Duplicate global names: ${duplicateGlobals.join(', ')}`);
+    }
+
+    spec.globals.forEach((entry, index) => this.validateGlobalEntry(entry, index, errors, warnings));
+
+    const conflicts = globalNames.filter(name => RESERVED_NAMES.includes(name.toLowerCase()));
+    if (conflicts.length > 0) {
+      errors.push(`Reserved Scriban keywords used as global names: ${conflicts.join(', ')}`);
+    }
+
+    this.validateReplacements(spec.globals, errors);
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  private static validateGlobalEntry(
+    entry: unknown,
+    index: number,
+    errors: string[],
+    warnings: string[]
+  ): void {
+    if (!isObject(entry)) {
+      errors.push(`globals[${index}]: Entry must be an object`);
+      return;
+    }
+
+    if (!isNonEmptyString(entry.name)) {
+      errors.push(`globals[${index}]: Name cannot be empty`);
+      return;
+    }
+
+    const context = `Global '${entry.name}'`;
+
+    if (!isNonEmptyString(entry.type)) {
+      errors.push(`${context}: Type is required`);
+    } else if (!GLOBAL_TYPES.includes(entry.type)) {
+      errors.push(`${context}: Type must be 'object' or 'function', got '${entry.type}'`);
+    }
+
+    if (!isNonEmptyString(entry.hover)) {
+      warnings.push(`${context}: Hover documentation is empty`);
+    }
+
+    if (entry.type === 'object') {
+      this.validateObjectEntry(entry, context, errors, warnings);
+    } else if (entry.type === 'function') {
+      this.validateFunctionEntry(entry, context, errors, warnings);
+    }
+  }
+
+  private static validateObjectEntry(
+    entry: Record<string, unknown>,
+    context: string,
+    errors: string[],
+    warnings: string[]
+  ): void {
+    if (!Array.isArray(entry.members) || entry.members.length === 0) {
+      errors.push(`${context}: Objects must have at least one member`);
+      return;
+    }
+
+    const memberNames = entry.members
+      .filter(isObject)
+      .map(m => m.name)
+      .filter(isNonEmptyString);
+
+    const duplicateMembers = findDuplicates(memberNames, true);
+    if (duplicateMembers.length > 0) {
+      errors.push(`${context}: Duplicate member names: ${duplicateMembers.join(', ')}`);
+    }
+
+    entry.members.forEach((member, index) => {
+      if (!isObject(member) || !isNonEmptyString(member.name)) {
+        errors.push(`${context}.members[${index}]: Member must be an object with a name`);
+        return;
+      }
+      this.validateFunctionEntry(member, `${context}.${member.name}`, errors, warnings);
+    });
+  }
+
+  private static validateFunctionEntry(
+    entry: Record<string, unknown>,
+    context: string,
+    errors: string[],
+    warnings: string[]
+  ): void {
+    if (!Array.isArray(entry.parameters)) {
+      errors.push(`${context}: Parameters array is required (use empty array if no parameters)`);
+      return;
+    }
+
+    if (entry.deprecated !== undefined) {
+      if (!isObject(entry.deprecated) || !isNonEmptyString(entry.deprecated.message)) {
+        errors.push(`${context}: 'deprecated' must be an object with a non-empty 'message'`);
+      } else if (entry.deprecated.replacement !== undefined && !isNonEmptyString(entry.deprecated.replacement)) {
+        errors.push(`${context}: 'deprecated.replacement' must be a function name`);
+      }
+    }
+
+    if (entry.category !== undefined && !isNonEmptyString(entry.category)) {
+      errors.push(`${context}: 'category' must be a non-empty string`);
+    }
+
+    if (entry.tags !== undefined &&
+        (!Array.isArray(entry.tags) || !entry.tags.every(isNonEmptyString))) {
+      errors.push(`${context}: 'tags' must be an array of non-empty strings`);
+    }
+
+    if (entry.examples !== undefined &&
+        (!Array.isArray(entry.examples) || !entry.examples.every(isNonEmptyString))) {
+      errors.push(`${context}: 'examples' must be an array of non-empty strings`);
+    }
+
+    if (entry.returns !== undefined &&
+        (typeof entry.returns !== 'string' || !RETURN_TYPES.includes(entry.returns))) {
+      errors.push(`${context}: Invalid return type '${String(entry.returns)}'. Must be one of: ${RETURN_TYPES.join(', ')}`);
+    }
+
+    const parameterNames = entry.parameters
+      .filter(isObject)
+      .map(p => p.name)
+      .filter(isNonEmptyString);
+
+    const duplicateParams = findDuplicates(parameterNames, false);
+    if (duplicateParams.length > 0) {
+      errors.push(`${context}: Duplicate parameter names: ${duplicateParams.join(', ')}`);
+    }
+
+    entry.parameters.forEach((param, index) => {
+      const name = isObject(param) && typeof param.name === 'string' ? param.name : '';
+      this.validateParameter(param, `${context}.param[${index}](${name})`, errors, warnings);
+    });
+
+    const parameters = entry.parameters;
+    parameters.forEach((param, index) => {
+      if (isObject(param) && param.rest === true && index !== parameters.length - 1) {
+        errors.push(`${context}.param[${index}](${String(param.name)}): Only the last parameter can be a rest parameter`);
+      }
+    });
+
+    if (entry.overloads !== undefined) {
+      if (!Array.isArray(entry.overloads)) {
+        errors.push(`${context}: 'overloads' must be an array`);
+        return;
+      }
+
+      entry.overloads.forEach((overload, index) => {
+        if (!isObject(overload)) {
+          errors.push(`${context}.overloads[${index}]: Overload must be an object`);
+          return;
+        }
+        // Overloads are validated like functions but cannot nest further overloads
+        this.validateFunctionEntry({ ...overload, overloads: undefined }, `${context}.overloads[${index}]`, errors, warnings);
+      });
+    }
+  }
+
+  /**
+   * Every deprecation replacement must name a function of the same spec (`copy` or `os.path_exists`).
+   */
+  private static validateReplacements(globals: unknown[], errors: string[]): void {
+    const functions = new Map<string, Record<string, unknown>>();
+    for (const global of globals.filter(isObject)) {
+      if (global.type === 'function' && isNonEmptyString(global.name)) {
+        functions.set(global.name, global);
+      } else if (global.type === 'object' && Array.isArray(global.members)) {
+        for (const member of global.members.filter(isObject)) {
+          if (isNonEmptyString(member.name)) {
+            functions.set(`${String(global.name)}.${member.name}`, member);
+          }
+        }
+      }
+    }
+
+    for (const [name, entry] of functions) {
+      const replacement = isObject(entry.deprecated) ? entry.deprecated.replacement : undefined;
+      if (!isNonEmptyString(replacement)) continue;
+
+      if (!functions.has(replacement)) {
+        errors.push(`Function '${name}': Deprecation replacement '${replacement}' is not a function in this ApiSpec`);
+      } else if (replacement === name) {
+        errors.push(`Function '${name}': Deprecation replacement cannot be the function itself`);
+      }
+    }
+  }
+
+  private static validateParameter(
+    param: unknown,
+    context: string,
+    errors: string[],
+    warnings: string[]
+  ): void {
+    if (!isObject(param)) {
+      errors.push(`${context}: Parameter must be an object`);
+      return;
+    }
+
+    if (!isNonEmptyString(param.name)) {
+      errors.push(`${context}: Name cannot be empty`);
+    }
+
+    if (typeof param.type !== 'string' || !PARAMETER_TYPES.includes(param.type)) {
+      errors.push(`${context}: Invalid type '${String(param.type)}'. Must be one of: ${PARAMETER_TYPES.join(', ')}`);
+    }
+
+    if (typeof param.picker !== 'string' || !PICKERS.includes(param.picker)) {
+      errors.push(`${context}: Invalid picker '${String(param.picker)}'. Must be one of: ${PICKERS.join(', ')}`);
+    }
+
+    if (param.picker === 'enum-list') {
+      if (!Array.isArray(param.options) || param.options.length === 0) {
+        errors.push(`${context}: Picker 'enum-list' requires non-empty 'options' array`);
+      }
+
+      if (param.type !== 'constant') {
+        warnings.push(`${context}: Picker 'enum-list' typically uses type 'constant', found '${String(param.type)}'`);
+      }
+    }
+
+    if (param.picker === 'file-picker' && param.type !== 'path') {
+      warnings.push(`${context}: Picker 'file-picker' typically uses type 'path', found '${String(param.type)}'`);
+    }
+
+    if (param.macros !== undefined &&
+        (!Array.isArray(param.macros) || !param.macros.every(m => typeof m === 'string'))) {
+      errors.push(`${context}: 'macros' must be an array of strings`);
+    } else if (Array.isArray(param.macros) && param.macros.length > 0 && param.type !== 'string') {
+      errors.push(`${context}: Macros are only valid for type 'string', found '${String(param.type)}'`);
+    }
+
+    if (param.options !== undefined &&
+        (!Array.isArray(param.options) || !param.options.every(o => typeof o === 'string'))) {
+      errors.push(`${context}: 'options' must be an array of strings`);
+    } else if (Array.isArray(param.options) && param.options.length > 0 && param.picker !== 'enum-list') {
+      warnings.push(`${context}: Options defined but picker is '${String(param.picker)}' (not 'enum-list')`);
+    }
+
+    if (param.optionDescriptions !== undefined) {
+      if (!isObject(param.optionDescriptions) ||
+          !Object.values(param.optionDescriptions).every(d => typeof d === 'string')) {
+        errors.push(`${context}: 'optionDescriptions' must map option values to strings`);
+      } else {
+        const options = Array.isArray(param.options) ? param.options : [];
+        const unknown = Object.keys(param.optionDescriptions).filter(value => !options.includes(value));
+        if (unknown.length > 0) {
+          warnings.push(`${context}: Descriptions for unknown options: ${unknown.join(', ')}`);
+        }
+      }
+    }
+
+    if (param.pathType !== undefined &&
+        (typeof param.pathType !== 'string' || !PATH_TYPES.includes(param.pathType))) {
+      errors.push(`${context}: Invalid pathType '${String(param.pathType)}'. Must be one of: ${PATH_TYPES.join(', ')}`);
+    }
+
+    if (param.pathType !== undefined && param.type !== 'path') {
+      warnings.push(`${context}: 'pathType' is only used by path parameters`);
+    }
+
+    if (param.optional !== undefined && typeof param.optional !== 'boolean') {
+      errors.push(`${context}: 'optional' must be a boolean`);
+    }
+
+    if (param.defaultValue !== undefined) {
+      if (typeof param.defaultValue !== 'string') {
+        errors.push(`${context}: 'defaultValue' must be a string containing the default's source text`);
+      } else if (param.optional !== true) {
+        warnings.push(`${context}: 'defaultValue' is only used by optional parameters`);
+      }
+    }
+
+    if (param.isSource !== undefined && typeof param.isSource !== 'boolean') {
+      errors.push(`${context}: 'isSource' must be a boolean`);
+    }
+
+    if (param.rest !== undefined && typeof param.rest !== 'boolean') {
+      errors.push(`${context}: 'rest' must be a boolean`);
+    }
+
+    if (param.constraints !== undefined) {
+      this.validateConstraints(param.constraints, param.type, context, errors, warnings);
+    }
+  }
+
+  private static validateConstraints(
+    constraints: unknown,
+    type: unknown,
+    context: string,
+    errors: string[],
+    warnings: string[]
+  ): void {
+    if (!isObject(constraints)) {
+      errors.push(`${context}: 'constraints' must be an object`);
+      return;
+    }
+
+    const { min, max, integer, pattern, maxLength, allowedValues } = constraints;
+
+    for (const [key, value] of Object.entries({ min, max })) {
+      if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+        errors.push(`${context}: Constraint '${key}' must be a number`);
+      }
+    }
+
+    if (typeof min === 'number' && typeof max === 'number' && min > max) {
+      errors.push(`${context}: Constraint 'min' (${min}) is greater than 'max' (${max})`);
+    }
+
+    if (integer !== undefined && typeof integer !== 'boolean') {
+      errors.push(`${context}: Constraint 'integer' must be a boolean`);
+    }
+
+    if (pattern !== undefined) {
+      if (typeof pattern !== 'string') {
+        errors.push(`${context}: Constraint 'pattern' must be a string`);
+      } else {
+        try {
+          new RegExp(pattern);
+        } catch {
+          errors.push(`${context}: Constraint 'pattern' is not a valid regular expression: ${pattern}`);
+        }
+      }
+    }
+
+    if (maxLength !== undefined &&
+        (typeof maxLength !== 'number' || !Number.isInteger(maxLength) || maxLength < 0)) {
+      errors.push(`${context}: Constraint 'maxLength' must be a non-negative integer`);
+    }
+
+    if (allowedValues !== undefined &&
+        (!Array.isArray(allowedValues) || !allowedValues.every(v => typeof v === 'string'))) {
+      errors.push(`${context}: Constraint 'allowedValues' must be an array of strings`);
+    }
+
+    const hasNumberConstraints = min !== undefined || max !== undefined || integer !== undefined;
+    if (hasNumberConstraints && type !== 'number') {
+      warnings.push(`${context}: Constraints 'min', 'max' and 'integer' only apply to number parameters`);
+    }
+
+    const hasStringConstraints = pattern !== undefined || maxLength !== undefined || allowedValues !== undefined;
+    if (hasStringConstraints && !TEXT_TYPES.includes(String(type))) {
+      warnings.push(`${context}: Constraints 'pattern', 'maxLength' and 'allowedValues' only apply to ${TEXT_TYPES.join('/')} parameters`);
+    }
+  }
+}
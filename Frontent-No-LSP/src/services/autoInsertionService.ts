@@ -5,6 +5,7 @@ import { FunctionCallParser } from './functionCallParser';
 import { MarkerDetectionService, MarkerInfo } from './markerDetectionService';
 import { DebugLogger } from '../utils/debugLogger';
 import { DelayedCallback, debouncedAutoInsert, delayedMarkerDetection } from '../utils/timingUtils';
+import { buildMarkerArguments, getRequiredParameterCount, hasPicker } from '../utils/signatureUtils';
 
 /**
  * Service for automatically inserting parameter markers when user types '(' or ','.
@@ -83,13 +84,17 @@ export class AutoInsertionService {
 
       // Use parser to check if this is a function call
       const parsed = FunctionCallParser.parseAtPosition(model, currentPosition);
+      // A piped value already is the first argument, so markers are for the parameters after it
+      const listParameters = parsed ? parsed.overload.parameters.slice(parsed.isPiped ? 1 : 0) : [];
+      // Optional parameters are not inserted, so only required picker parameters count
+      const requiredParameters = listParameters.slice(0, getRequiredParameterCount(listParameters));
       DebugLogger.autoInsert('Parsed function call:', parsed ? {
         functionName: parsed.functionName,
-        hasPathParams: parsed.functionDef.parameters.some(p => p.type === 'path')
+        hasPickerParams: requiredParameters.some(hasPicker)
       } : null);
 
-      if (!parsed || !parsed.functionDef.parameters.some(p => p.type === 'path')) {
-        DebugLogger.autoInsert('No parsed function or no path parameters');
+      if (!parsed || !requiredParameters.some(hasPicker)) {
+        DebugLogger.autoInsert('No parsed function or no picker parameters');
         return;
       }
 
@@ -112,8 +117,8 @@ export class AutoInsertionService {
 
       DebugLogger.autoInsert('Conditions met, inserting markers');
 
-      // Build marker text for all parameters
-      const insertText = this.buildMarkerTextForAllParameters(parsed.functionDef.parameters);
+      // Build marker text for the required parameters of the best-matching overload
+      const insertText = buildMarkerArguments(listParameters) + ')';
 
       // Insert at cursor position
       const insertRange = new monaco.Range(
@@ -158,24 +163,6 @@ export class AutoInsertionService {
     }, TIMING.AUTO_INSERT_DEBOUNCE);
   }
 
-  /**
-   * Build marker text for all parameters of a function.
-   */
-  private static buildMarkerTextForAllParameters(parameters: Array<{ type: string }>): string {
-    const pathParams = parameters.filter(p => p.type === 'path');
-    const nonPathParams = parameters.filter(p => p.type !== 'path');
-
-    const parts: string[] = [];
-    pathParams.forEach(() => {
-      parts.push(`"${MARKER_TOKEN}"`);
-    });
-    nonPathParams.forEach(() => {
-      parts.push(MARKER_TOKEN);
-    });
-
-    return parts.join(', ') + ')';
-  }
-
   /**
    * Check if the last character typed was ',' and conditions are met for auto-insertion.
    */
@@ -219,7 +206,7 @@ export class AutoInsertionService {
   }
 
   /**
-   * Insert marker after ',' character for the next path parameter.
+   * Insert marker after ',' character for the next picker parameter.
    */
   static insertMarkerAfterComma(
     model: monaco.editor.ITextModel,
@@ -252,11 +239,11 @@ export class AutoInsertionService {
       return false;
     }
 
-    // Get the next path parameter that needs a value
-    const nextPathParam = FunctionCallParser.getNextPathParameter(parsed, model);
-    DebugLogger.comma('Next path parameter:', nextPathParam);
+    // Get the next picker parameter that needs a value
+    const nextPickerParam = FunctionCallParser.getNextPickerParameter(parsed, model);
+    DebugLogger.comma('Next picker parameter:', nextPickerParam);
 
-    if (!nextPathParam) {
+    if (!nextPickerParam) {
       return false;
     }
 
@@ -284,8 +271,8 @@ export class AutoInsertionService {
       return false;
     }
 
-    DebugLogger.comma('Inserting marker at column', nextPathParam.range.startColumn,
-                'for parameter index', nextPathParam.parameterIndex);
+    DebugLogger.comma('Inserting marker at column', nextPickerParam.range.startColumn,
+                'for parameter index', nextPickerParam.parameterIndex);
     DebugLogger.comma('Line text before insertion:', currentLineText);
     DebugLogger.comma('Cursor position:', position);
 
@@ -1,6 +1,9 @@
 import * as monaco from 'monaco-editor';
-import { FunctionCallParser } from './functionCallParser';
+import { FunctionCallParser, ParsedFunctionCall } from './functionCallParser';
+import { OverloadResolver } from './overloadResolver';
+import { buildMarkerForParameter, hasPicker } from '../utils/signatureUtils';
 import { findParameterAtPosition } from '../utils/findParameterAtPosition';
+import { findMacroParameterAtPosition } from '../utils/macroUtils';
 import { MARKER_TOKEN } from '../config';
 
 /**
@@ -8,21 +11,23 @@ import { MARKER_TOKEN } from '../config';
  */
 export interface CtrlSpaceHandlerResult {
   /** Type of action to perform */
-  action: 'open-picker' | 'insert-marker' | 'none';
+  action: 'open-picker' | 'insert-marker' | 'insert-argument' | 'none';
   /** Range for the parameter (if action is 'open-picker' or 'insert-marker') */
   range?: monaco.Range;
   /** Function name (if action is 'open-picker' or 'insert-marker') */
   functionName?: string;
   /** Parameter index (if action is 'open-picker' or 'insert-marker') */
   parameterIndex?: number;
-  /** Text to insert (if action is 'insert-marker') */
+  /** Text to insert (if action is 'insert-marker' or 'insert-argument') */
   insertText?: string;
+  /** Range of the inserted value to select after insertion (if action is 'insert-argument') */
+  selection?: monaco.Range;
 }
 
 /**
  * Service to handle Ctrl+Space key press in the editor
- * Centralizes logic for checking if we should open a picker for an existing parameter
- * or insert a marker for the next path parameter
+ * Centralizes logic for checking if we should open a picker for an existing parameter,
+ * insert a marker for the next picker parameter, or append the next (optional) argument
  */
 export class CtrlSpaceHandlerService {
   /**
@@ -33,7 +38,7 @@ export class CtrlSpaceHandlerService {
     model: monaco.editor.ITextModel,
     position: monaco.Position
   ): CtrlSpaceHandlerResult {
-    // Check if cursor is in a path parameter
+    // Check if cursor is in a picker (path or enum) parameter
     const paramInfo = findParameterAtPosition(model, position);
     if (paramInfo) {
       // Open picker for this parameter
@@ -45,21 +50,34 @@ export class CtrlSpaceHandlerService {
       };
     }
 
+    // Inside a string with macros, the default completion lists the macros
+    if (findMacroParameterAtPosition(model, position)) {
+      return {
+        action: 'none',
+      };
+    }
+
     // If not in an existing parameter, check if we're in a function call
     const parsed = FunctionCallParser.parseAtPosition(model, position);
     if (parsed) {
-      // Get the next path parameter that needs a value
-      const nextPathParam = FunctionCallParser.getNextPathParameter(parsed, model);
-      if (nextPathParam) {
-        // Insert marker for the next path parameter
+      // Get the next picker parameter that needs a value
+      const nextPickerParam = FunctionCallParser.getNextPickerParameter(parsed, model);
+      if (nextPickerParam) {
+        // Insert marker for the next picker parameter
         return {
           action: 'insert-marker',
-          range: nextPathParam.range,
+          range: nextPickerParam.range,
           functionName: parsed.functionName,
-          parameterIndex: nextPathParam.parameterIndex,
+          parameterIndex: nextPickerParam.parameterIndex,
           insertText: `"${MARKER_TOKEN}"`,
         };
       }
+
+      // Otherwise append the next argument the signature accepts (e.g. an omitted optional one)
+      const nextArgument = this.getNextArgumentInsertion(model, parsed);
+      if (nextArgument) {
+        return nextArgument;
+      }
     }
 
     // Not handled - allow default behavior
@@ -67,4 +85,46 @@ export class CtrlSpaceHandlerService {
       action: 'none',
     };
   }
+
+  /**
+   * Build the insertion of the argument after the last written one, before the closing paren
+   * (or at the end of a parenless call).
+   * Picker arguments get a marker (opens the picker); other arguments get their default value
+   * (or a marker) which is selected so it can be typed over.
+   */
+  private static getNextArgumentInsertion(
+    model: monaco.editor.ITextModel,
+    parsed: ParsedFunctionCall
+  ): CtrlSpaceHandlerResult | null {
+    const parameterIndex = parsed.argumentCount;
+    const paramDef = OverloadResolver.getParameterAt(parsed.overload.parameters, parameterIndex);
+    if (!paramDef) {
+      return null;
+    }
+
+    // Insert right after the last written character, so a closing paren on its own line stays there
+    const callEnd = parsed.closeParenRange ? parsed.closeParenRange.getStartPosition() : parsed.fullRange.getEndPosition();
+    const callText = model.getValueInRange(monaco.Range.fromPositions(parsed.fullRange.getStartPosition(), callEnd));
+    const insertOffset = model.getOffsetAt(callEnd) - (callText.length - callText.trimEnd().length);
+    const { lineNumber, column: insertColumn } = model.getPositionAt(insertOffset);
+    // Parenless arguments follow the name after a space; in parentheses the first one (after any piped value) needs no comma
+    const prefix = parsed.isParenless ? ' ' : parameterIndex > (parsed.isPiped ? 1 : 0) ? ', ' : '';
+    const value = hasPicker(paramDef)
+      ? buildMarkerForParameter(paramDef)
+      : paramDef.defaultValue ?? MARKER_TOKEN;
+
+    return {
+      action: 'insert-argument',
+      range: new monaco.Range(lineNumber, insertColumn, lineNumber, insertColumn),
+      functionName: parsed.functionName,
+      parameterIndex,
+      insertText: prefix + value,
+      selection: new monaco.Range(
+        lineNumber,
+        insertColumn + prefix.length,
+        lineNumber,
+        insertColumn + prefix.length + value.length
+      ),
+    };
+  }
 }
@@ -1,284 +1,307 @@
 import * as monaco from 'monaco-editor';
-import { CUSTOM_FUNCTIONS, MARKER_TOKEN } from '../config';
-import { CustomFunction } from '../types';
+import { MARKER_TOKEN } from '../config';
+import { CustomFunction, FunctionOverload, FunctionParameter, ParameterType } from '../types';
 import { RangeUtils } from './rangeUtils';
+import { FunctionCatalog } from './functionCatalog';
+import { OverloadResolver } from './overloadResolver';
+import { ParameterMatcher } from './parameterMatcher';
+import { TypeInference } from './typeInference';
+import { ScribanParseService } from './scribanParseService';
+import { CallExpression, getQualifiedName } from './scribanAst';
+import { ArgumentKind, ArgumentText, splitTopLevelArguments } from '../utils/argumentUtils';
+import { hasPicker } from '../utils/signatureUtils';
+import { StringQuote } from '../utils/stringLiteralUtils';
 
 export interface ParsedParameter {
-  index: number;           // Index in function definition (0-based)
-  type: 'path' | 'string' | 'number' | 'boolean';
+  index: number;           // Index in the resolved signature (0-based)
+  type: ParameterType;
   name: string;
   range: monaco.Range;     // Range of the parameter value (or marker), excluding quotes for content
-  value: string | null;    // Current value (without quotes), or null if marker/empty
-  isMarker: boolean;       // True if contains MARKER_TOKEN
-  isQuoted: boolean;       // True if the parameter is a quoted string
+  value: string | null;    // Current value (without quotes, escapes resolved), or null if marker/empty
+  isMarker: boolean;       // True if the argument is the marker (quoted or not)
+  isQuoted: boolean;       // True if the argument is a single quoted string (or quoted marker)
+  quote: StringQuote | null; // Quote style of a quoted argument, so replacements keep it
+  kind: ArgumentKind;      // Expression kind of the argument ('empty' if not written)
 }
 
 export interface ParsedFunctionCall {
   functionName: string;
   functionDef: CustomFunction;
+  overload: FunctionOverload;  // Signature that best matches the call's arguments
+  overloadIndex: number;       // Index of `overload` in OverloadResolver.getSignatures(functionDef)
+  argumentCount: number;       // Number of arguments written so far (including empty ones before a comma and the piped value)
   parameters: ParsedParameter[];
-  openParenRange: monaco.Range;
-  closeParenRange: monaco.Range | null;
-  fullRange: monaco.Range; // Range of entire function call including function name
+  isParenless: boolean;        // `copy "a" "b/"`: arguments separated by spaces, no parentheses
+  isPiped: boolean;            // `value | copy "b/"`: the piped value is the first argument (parameters[0])
+  openParenRange: monaco.Range | null;  // null for a parenless call
+  closeParenRange: monaco.Range | null; // null if the call is not closed, or parenless
+  fullRange: monaco.Range; // Range of entire function call including function name (and piped value)
+}
+
+/**
+ * Bounds of a call's argument list as document offsets.
+ */
+interface CallBounds {
+  openOffset: number;          // Offset of '('
+  closeOffset: number | null;  // Offset of the matching ')', null if the call is not closed
+  endOffset: number;           // End of the argument text (the ')' or the end of an unclosed call)
+}
+
+/**
+ * A call to a catalog function found around the cursor, before its parameters are matched.
+ */
+interface CallSite {
+  funcStartOffset: number;
+  funcName: string;
+  functionDef: CustomFunction;
+  piped: ArgumentText | null;   // Value before `|`, the first argument
+  bounds: CallBounds | null;    // Parentheses of the argument list, null for a parenless call
+  args: ArgumentText[];         // Arguments after the function name (document offsets)
+  listStart: number;            // Offset where the written arguments start (after '(' or the name)
+  endOffset: number;            // End of the call
 }
 
 export class FunctionCallParser {
   /**
    * Parse a function call at a given position in the editor.
    * Returns null if position is not within a function call.
+   *
+   * Works on document offsets, so calls may span several lines:
+   * `copy(\n  "src/",\n  "dest/"\n)`.
+   * Parenless calls (`copy "a" "b/"`) and pipes (`"a" | copy "b/"`, the piped value being
+   * the first argument) are found from the script's AST.
+   * In template mode only calls inside code blocks are found.
    */
   static parseAtPosition(
     model: monaco.editor.ITextModel,
     position: monaco.Position
   ): ParsedFunctionCall | null {
-    const lineNumber = position.lineNumber;
-    const lineText = model.getLineContent(lineNumber);
-    const column = position.column - 1; // Convert to 0-based
-
-    // Find the function call containing this position
-    // Look backwards from position to find opening parenthesis
-    let openParenCol = -1;
-    let parenDepth = 0;
-    let funcStartCol = -1;
-    let funcName = '';
-
-    // First, find the opening parenthesis
-    for (let i = column; i >= 0; i--) {
-      if (lineText[i] === ')') {
-        parenDepth++;
-      } else if (lineText[i] === '(') {
-        if (parenDepth === 0) {
-          openParenCol = i;
-          // Look backwards to find function name
-          let j = i - 1;
-          while (j >= 0 && /\s/.test(lineText[j])) j--;
-          while (j >= 0 && /[a-zA-Z_0-9]/.test(lineText[j])) j--;
-          j++;
-          funcStartCol = j;
-          funcName = lineText.substring(j, i).trim();
-          break;
-        } else {
-          parenDepth--;
-        }
-      }
-    }
-
-    if (openParenCol === -1 || !funcName) {
+    if (!ScribanParseService.isCodePosition(model, position)) {
       return null;
     }
+    const text = ScribanParseService.getCodeText(model);
+    const offset = model.getOffsetAt(position);
 
-    // Find function definition
-    const functionDef = CUSTOM_FUNCTIONS.find(f => f.name === funcName);
-    if (!functionDef) {
+    // Find the innermost call around the cursor whose function is known
+    // (parentheses of grouping and of other functions are skipped)
+    const callStart = this.findEnclosingCall(model, text, offset);
+    const astCall = this.findEnclosingAstCall(model, text, offset);
+
+    let site: CallSite | null = null;
+    if (astCall && (!callStart || astCall.range.start > callStart.openOffset)) {
+      site = this.createAstCallSite(model, text, astCall);
+    } else if (callStart) {
+      const piped = this.findPipedCall(model, callStart.openOffset);
+      site = this.createParenCallSite(model, text, callStart, piped ? this.toArgumentText(text, piped.args[0]) : null);
+    }
+    if (!site || offset > site.endOffset) {
       return null;
     }
 
-    // Find closing parenthesis
-    let closeParenCol = -1;
-    parenDepth = 0;
-    for (let i = openParenCol + 1; i < lineText.length; i++) {
-      if (lineText[i] === '(') {
-        parenDepth++;
-      } else if (lineText[i] === ')') {
-        if (parenDepth === 0) {
-          closeParenCol = i;
-          break;
-        } else {
-          parenDepth--;
-        }
-      }
-    }
+    // Pick the overload matching the arguments written so far (variables typed by earlier assignments)
+    const args = site.piped ? [site.piped, ...site.args] : site.args;
+    const variables = ScribanParseService.getTypes(model).getVariablesIn({
+      start: site.piped?.start ?? site.funcStartOffset,
+      end: site.endOffset
+    });
+    const resolved = OverloadResolver.resolve(
+      site.functionDef,
+      args.map(a => TypeInference.inferExpressionType(a.text, variables))
+    );
 
-    // Extract parameters text
-    const paramsText = lineText.substring(openParenCol + 1, closeParenCol !== -1 ? closeParenCol : lineText.length);
-    
     // Parse parameters
-    const parameters = this.parseParameters(
-      model,
-      lineNumber,
-      openParenCol + 2, // Monaco column after opening paren (1-based)
-      paramsText,
-      functionDef
-    );
+    const parameters = this.parseParameters(model, text, site.listStart, args, resolved.overload.parameters);
+    const { bounds } = site;
 
     return {
-      functionName: funcName,
-      functionDef,
+      functionName: site.funcName,
+      functionDef: site.functionDef,
+      overload: resolved.overload,
+      overloadIndex: resolved.index,
+      argumentCount: args.length,
       parameters,
-      openParenRange: new monaco.Range(lineNumber, openParenCol + 1, lineNumber, openParenCol + 2),
-      closeParenRange: closeParenCol !== -1 
-        ? new monaco.Range(lineNumber, closeParenCol + 1, lineNumber, closeParenCol + 2)
+      isParenless: bounds === null,
+      isPiped: site.piped !== null,
+      openParenRange: bounds ? this.toRange(model, bounds.openOffset, bounds.openOffset + 1) : null,
+      closeParenRange: bounds?.closeOffset != null
+        ? this.toRange(model, bounds.closeOffset, bounds.closeOffset + 1)
         : null,
-      fullRange: new monaco.Range(
-        lineNumber,
-        funcStartCol + 1,
-        lineNumber,
-        closeParenCol !== -1 ? closeParenCol + 2 : lineText.length + 1
-      )
+      fullRange: this.toRange(model, site.piped?.start ?? site.funcStartOffset, site.endOffset)
     };
   }
 
   /**
-   * Parse parameters from a parameter string.
+   * Call site of a call with parentheses, found by findEnclosingCall.
    */
-  private static parseParameters(
-    _model: monaco.editor.ITextModel,
-    lineNumber: number,
-    startColumn: number, // Column where parameters start (after opening paren)
-    paramsText: string,
-    functionDef: CustomFunction
-  ): ParsedParameter[] {
-    const parameters: ParsedParameter[] = [];
-    
-    if (!paramsText.trim()) {
-      // No parameters
-      return functionDef.parameters.map((param, index) => ({
-        index,
-        type: param.type,
-        name: param.name,
-        range: new monaco.Range(lineNumber, startColumn, lineNumber, startColumn),
-        value: null,
-        isMarker: false,
-        isQuoted: false
-      }));
+  private static createParenCallSite(
+    model: monaco.editor.ITextModel,
+    text: string,
+    callStart: { openOffset: number; funcStartOffset: number; funcName: string; functionDef: CustomFunction },
+    piped: ArgumentText | null
+  ): CallSite {
+    const { openOffset } = callStart;
+
+    // Find closing parenthesis (or the end of an unclosed call)
+    const bounds = this.findCallBounds(model, text, openOffset);
+    const args = splitTopLevelArguments(text.substring(openOffset + 1, bounds.endOffset))
+      .map(arg => ({ ...arg, start: openOffset + 1 + arg.start, end: openOffset + 1 + arg.end }));
+
+    return {
+      ...callStart,
+      piped,
+      bounds,
+      args,
+      listStart: openOffset + 1,
+      endOffset: bounds.closeOffset !== null ? bounds.closeOffset + 1 : bounds.endOffset
+    };
+  }
+
+  /**
+   * Call site of a parenless or piped call from the AST (see findEnclosingAstCall).
+   */
+  private static createAstCallSite(model: monaco.editor.ITextModel, text: string, call: CallExpression): CallSite {
+    const funcName = getQualifiedName(call.callee)!;
+    const functionDef = FunctionCatalog.findFunction(funcName)!;
+    const piped = call.piped ? this.toArgumentText(text, call.args[0]) : null;
+
+    if (call.openParen) {
+      const callStart = { openOffset: call.openParen.start, funcStartOffset: call.callee.range.start, funcName, functionDef };
+      return this.createParenCallSite(model, text, callStart, piped);
     }
 
-    // Parse parameters by splitting on commas, respecting quoted strings
-    const paramParts: Array<{ text: string; startOffset: number; endOffset: number; originalText: string }> = [];
-    let currentPart = '';
-    let currentStart = 0;
-    let inQuotes = false;
-    let quoteChar = '';
-    let quoteStartOffset: number | null = null; // Track the offset of the opening quote
-    
-    for (let i = 0; i < paramsText.length; i++) {
-      const char = paramsText[i];
-      const prevChar = i > 0 ? paramsText[i - 1] : '';
-      
-      if ((char === '"' || char === "'") && prevChar !== '\\') {
-        if (!inQuotes) {
-          inQuotes = true;
-          quoteChar = char;
-          quoteStartOffset = i; // Remember the position of the opening quote
-          if (currentPart.trim() === '') {
-            currentStart = i;
-          }
-        } else if (char === quoteChar) {
-          inQuotes = false;
-          // Don't reset quoteStartOffset here - we need it when pushing the parameter
-        }
-        currentPart += char;
-      } else if (char === ',' && !inQuotes) {
-        if (currentPart.trim() || paramParts.length < functionDef.parameters.length) {
-          // For quoted parameters, use the quote start offset if available
-          const startOffset = quoteStartOffset !== null ? quoteStartOffset : currentStart;
-          paramParts.push({
-            text: currentPart.trim(),
-            startOffset: startOffset,
-            endOffset: i,
-            originalText: currentPart // Keep original for accurate length calculation
-          });
-        }
-        currentPart = '';
-        currentStart = i + 1;
-        quoteStartOffset = null;
-      } else {
-        if (currentPart.trim() === '' && !inQuotes && !/\s/.test(char)) {
-          currentStart = i;
-        }
-        currentPart += char;
+    const args = (call.piped ? call.args.slice(1) : call.args).map(arg => this.toArgumentText(text, arg));
+    return {
+      funcStartOffset: call.callee.range.start,
+      funcName,
+      functionDef,
+      piped,
+      bounds: null,
+      args,
+      listStart: call.callee.range.end,
+      endOffset: this.getParenlessCallEnd(text, call)
+    };
+  }
+
+  /**
+   * Innermost parenless call to a catalog function whose arguments contain `offset`, or piped call
+   * whose piped value contains it. A function name alone as a statement (`copy `) is a parenless call
+   * without arguments, so hints show before the first argument is typed.
+   */
+  private static findEnclosingAstCall(model: monaco.editor.ITextModel, text: string, offset: number): CallExpression | null {
+    let innermost: CallExpression | null = null;
+
+    for (const call of ScribanParseService.getCallsAt(model, offset)) {
+      const funcName = getQualifiedName(call.callee);
+      if (!funcName || !FunctionCatalog.findFunction(funcName)) continue;
+
+      const piped = call.piped ? call.args[0].range : null;
+      const inPiped = piped !== null && piped.start <= offset && offset <= piped.end;
+      // The arguments of a parenless call start after the space that follows the name
+      const inArguments = !call.openParen &&
+        call.callee.range.end < offset && offset <= this.getParenlessCallEnd(text, call);
+      if (inPiped || inArguments) {
+        innermost = call;
       }
     }
-    
-    // Add last parameter
-    if (currentPart.trim() || paramParts.length < functionDef.parameters.length) {
-      // For quoted parameters, use the quote start offset if available
-      const startOffset = quoteStartOffset !== null ? quoteStartOffset : currentStart;
-      paramParts.push({
-        text: currentPart.trim(),
-        startOffset: startOffset,
-        endOffset: paramsText.length,
-        originalText: currentPart // Keep original for accurate length calculation
-      });
-    }
 
-    // Map parsed parts to function parameters
-    for (let i = 0; i < functionDef.parameters.length; i++) {
-      const paramDef = functionDef.parameters[i];
-      const part = paramParts[i];
-      
-      if (!part) {
-        // Parameter not present
-        const prevEnd = i > 0 && parameters[i - 1]
-          ? parameters[i - 1].range.endColumn
-          : startColumn;
-        parameters.push({
-          index: i,
-          type: paramDef.type,
-          name: paramDef.name,
-          range: new monaco.Range(lineNumber, prevEnd, lineNumber, prevEnd),
-          value: null,
-          isMarker: false,
-          isQuoted: false
-        });
-        continue;
-      }
+    return innermost;
+  }
 
-      const partText = part.text;
-      const isQuoted = (partText.startsWith('"') && partText.endsWith('"')) ||
-                       (partText.startsWith("'") && partText.endsWith("'"));
-      const isMarker = partText.includes(MARKER_TOKEN);
-      
-      // Extract value (remove quotes if present)
-      let value: string | null = null;
-      if (isMarker) {
-        value = null;
-      } else if (isQuoted) {
-        value = partText.substring(1, partText.length - 1);
-      } else {
-        value = partText || null;
-      }
+  /**
+   * The AST call with parentheses opened at `openOffset`, if it is piped.
+   */
+  private static findPipedCall(model: monaco.editor.ITextModel, openOffset: number): CallExpression | null {
+    return ScribanParseService.getCallsAt(model, openOffset)
+      .find(call => call.piped && call.openParen?.start === openOffset) ?? null;
+  }
 
-      // Calculate range
-      // For quoted strings, range should be content between quotes (for editing)
-      // For markers, range should be the full quoted string (for replacement)
-      let rangeStart = startColumn + part.startOffset;
-      let rangeEnd: number;
-      
-      if (isQuoted && !isMarker) {
-        // Content between quotes (for existing values)
-        // Use originalText to get the actual text including quotes, but trim to remove leading/trailing whitespace
-        const originalText = (part as any).originalText || partText;
-        const trimmedOriginal = originalText.trim();
-        // rangeStart: after opening quote (first char of content)
-        // rangeEnd: after closing quote (Monaco ranges are exclusive at end)
-        // Both are calculated from the same base: startColumn + part.startOffset (opening quote position)
-        const quoteStartPos = startColumn + part.startOffset; // Position of opening quote
-        rangeStart = quoteStartPos + 1; // After opening quote (first char of content)
-        // Use trimmed length to avoid issues with leading/trailing whitespace
-        rangeEnd = quoteStartPos + trimmedOriginal.length; // After closing quote (trimmedOriginal includes both quotes)
-      } else if (isMarker && isQuoted) {
-        // For markers, range should include quotes for replacement
-        // partText includes quotes, so rangeEnd should be after the closing quote
-        rangeEnd = startColumn + part.startOffset + partText.length;
-      } else {
-        // Unquoted parameter
-        // part.endOffset is the position of the comma or end of params
-        rangeEnd = startColumn + part.endOffset;
+  /**
+   * End of a parenless call including the spaces after its last argument,
+   * where the next argument is typed.
+   */
+  private static getParenlessCallEnd(text: string, call: CallExpression): number {
+    let end = call.range.end;
+    while (end < text.length && (text[end] === ' ' || text[end] === '\t')) end++;
+    return end;
+  }
+
+  private static toArgumentText(text: string, node: { range: { start: number; end: number } }): ArgumentText {
+    return { text: text.substring(node.range.start, node.range.end), start: node.range.start, end: node.range.end };
+  }
+
+  /**
+   * Innermost call around `offset` to a catalog function, or null.
+   * Grouping parentheses and calls to unknown functions are skipped, so in
+   * `copy((base + "/"), "out/")` the grouping belongs to the `copy` call.
+   */
+  private static findEnclosingCall(
+    model: monaco.editor.ITextModel,
+    text: string,
+    offset: number
+  ): { openOffset: number; funcStartOffset: number; funcName: string; functionDef: CustomFunction } | null {
+    const openParens = ScribanParseService.getOpenParensAt(model, offset);
+
+    for (let k = openParens.length - 1; k >= 0; k--) {
+      const openOffset = openParens[k];
+
+      // Look backwards to find function name
+      // Qualified names (os.path_exists) include the namespace
+      let j = openOffset - 1;
+      while (j >= 0 && /[ \t]/.test(text[j])) j--;
+      while (j >= 0 && /[a-zA-Z_0-9.]/.test(text[j])) j--;
+      j++;
+      while (text[j] === '.') j++;
+      const funcName = text.substring(j, openOffset).trim();
+
+      const functionDef = funcName ? FunctionCatalog.findFunction(funcName) : undefined;
+      if (functionDef) {
+        return { openOffset, funcStartOffset: j, funcName, functionDef };
       }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find where the argument list opened at `openOffset` ends.
+   * A call without matching ')' ends at the end of its line; it continues on the next line
+   * only while the line ends with '(' or ',' (an argument list that is still being written).
+   */
+  private static findCallBounds(model: monaco.editor.ITextModel, text: string, openOffset: number): CallBounds {
+    const closeOffset = ScribanParseService.getClosingParen(model, openOffset);
+    if (closeOffset !== null) {
+      return { openOffset, closeOffset, endOffset: closeOffset };
+    }
 
-      parameters.push({
-        index: i,
-        type: paramDef.type,
-        name: paramDef.name,
-        range: new monaco.Range(lineNumber, rangeStart, lineNumber, rangeEnd),
-        value,
-        isMarker,
-        isQuoted
-      });
+    let endOffset = text.indexOf('\n', openOffset);
+    while (endOffset !== -1) {
+      const lineStart = Math.max(openOffset, text.lastIndexOf('\n', endOffset - 1) + 1);
+      if (!/[(,]\s*$/.test(text.substring(lineStart, endOffset))) break;
+      endOffset = text.indexOf('\n', endOffset + 1);
     }
+    return { openOffset, closeOffset: null, endOffset: endOffset === -1 ? text.length : endOffset };
+  }
+
+  private static toRange(model: monaco.editor.ITextModel, startOffset: number, endOffset: number): monaco.Range {
+    return monaco.Range.fromPositions(model.getPositionAt(startOffset), model.getPositionAt(endOffset));
+  }
 
-    return parameters;
+  /**
+   * Match written arguments to parameters (see ParameterMatcher) and convert their ranges with the model.
+   */
+  private static parseParameters(
+    model: monaco.editor.ITextModel,
+    text: string,
+    listStart: number,
+    args: ArgumentText[],
+    parameterDefs: FunctionParameter[]
+  ): ParsedParameter[] {
+    return ParameterMatcher.match(text, listStart, args, parameterDefs).map(({ parameter, start, end, ...match }) => ({
+      ...match,
+      type: parameter.type,
+      name: parameter.name,
+      range: this.toRange(model, start, end)
+    }));
   }
 
   /**
@@ -317,16 +340,66 @@ export class FunctionCallParser {
   }
 
   /**
-   * Get the next path parameter that needs a value (has marker, is empty, or doesn't exist yet).
+   * Get the index of the argument the cursor is in (0 before the first comma).
+   * Commas inside quotes or nested brackets are not counted. A piped value is argument 0;
+   * in a parenless call, the cursor after an argument and a space is in the next one.
+   */
+  static getArgumentIndexAtPosition(
+    model: monaco.editor.ITextModel,
+    parsed: ParsedFunctionCall,
+    position: monaco.Position
+  ): number {
+    const piped = parsed.isPiped ? parsed.parameters[0] : undefined;
+    if (piped && position.isBeforeOrEqual(piped.range.getEndPosition())) {
+      return 0;
+    }
+
+    if (!parsed.openParenRange) {
+      const written = parsed.parameters.slice(0, parsed.argumentCount);
+      const index = written.findIndex(param => position.isBeforeOrEqual(param.range.getEndPosition()));
+      return index === -1 ? parsed.argumentCount : index;
+    }
+
+    const textBeforeCursor = model.getValueInRange(
+      monaco.Range.fromPositions(parsed.openParenRange.getEndPosition(), position)
+    );
+    return (parsed.isPiped ? 1 : 0) + Math.max(splitTopLevelArguments(textBeforeCursor).length - 1, 0);
+  }
+
+  /**
+   * Get the definition of a parameter as resolved for the call nearest to a position.
+   * Falls back to the function's primary signature if the call cannot be found.
+   */
+  static getParameterDefinition(
+    model: monaco.editor.ITextModel,
+    functionName: string,
+    parameterIndex: number,
+    nearPosition?: monaco.Position
+  ): FunctionParameter | undefined {
+    const parsed = this.findFunctionCallByName(model, functionName, nearPosition);
+    if (parsed) {
+      return OverloadResolver.getParameterAt(parsed.overload.parameters, parameterIndex);
+    }
+    return FunctionCatalog.findFunction(functionName)?.parameters[parameterIndex];
+  }
+
+  /**
+   * Get the next picker parameter (path or enum) that needs a value (has marker, is empty, or doesn't exist yet).
    */
-  static getNextPathParameter(
+  static getNextPickerParameter(
     parsed: ParsedFunctionCall,
     model: monaco.editor.ITextModel
   ): { parameterIndex: number; range: monaco.Range } | null {
-    // Find the first path parameter that needs a value
-    for (let i = 0; i < parsed.functionDef.parameters.length; i++) {
-      const paramDef = parsed.functionDef.parameters[i];
-      if (paramDef.type === 'path') {
+    // Find the first picker parameter that needs a value
+    // Arguments after a comma that belong to a rest parameter are part of parsed.parameters
+    const parameterCount = Math.max(parsed.overload.parameters.length, parsed.parameters.length);
+    // The first argument in parentheses comes after the piped value
+    const firstListIndex = parsed.isPiped ? 1 : 0;
+    for (let i = 0; i < parameterCount; i++) {
+      // Arguments that are not written yet need a comma or space first (see CtrlSpaceHandlerService)
+      if (i >= parsed.argumentCount && (parsed.isParenless || i > firstListIndex)) break;
+      const paramDef = OverloadResolver.getParameterAt(parsed.overload.parameters, i)!;
+      if (hasPicker(paramDef)) {
         const param = parsed.parameters[i];
         
         // If parameter doesn't exist, is a marker, or is empty, it needs a value
@@ -342,57 +415,27 @@ export class FunctionCallParser {
             // Existing parameter (empty) - use its range
             range = param.range;
           } else {
-            // Parameter doesn't exist yet - calculate position after previous parameter or opening paren
-            const prevParam = i > 0 ? parsed.parameters[i - 1] : null;
-            let startCol: number;
-            
+            // Parameter doesn't exist yet - insert after the comma that follows the previous parameter
+            // (skipping whitespace, including line breaks), or right after the opening paren
+            const prevParam = i > firstListIndex ? parsed.parameters[i - 1] : null;
+            let position = parsed.openParenRange?.getEndPosition() ?? parsed.fullRange.getEndPosition();
+
             if (prevParam) {
-              // After previous parameter - need to account for comma and space
-              // Get the actual line text to find where the comma is
-              const lineNumber = parsed.openParenRange.startLineNumber;
-              const lineText = model.getLineContent(lineNumber);
-              
-              // Find the end of the previous parameter (including quotes)
-              // For quoted params, endColumn is already after closing quote
-              let prevEndCol = prevParam.range.endColumn;
-              
-              // Look for comma after the previous parameter
-              // Start from prevEndCol (which is 1-based Monaco column, so convert to 0-based index)
-              let calculatedStartCol = prevEndCol; // Start from prevEndCol (1-based)
-              
-              // Search for comma starting from the position after the previous parameter
-              // lineText is 0-based, prevEndCol is 1-based, so lineText[prevEndCol - 1] is the char at prevEndCol
-              for (let col = prevEndCol; col <= lineText.length; col++) {
-                // col is 1-based Monaco column, convert to 0-based index: col - 1
-                const charIndex = col - 1;
-                if (charIndex >= 0 && charIndex < lineText.length && lineText[charIndex] === ',') {
-                  // Found comma at col (1-based), next parameter starts at col + 1
-                  calculatedStartCol = col + 1;
-                  // Skip any whitespace after comma
-                  while (calculatedStartCol <= lineText.length) {
-                    const wsIndex = calculatedStartCol - 1;
-                    if (wsIndex >= 0 && wsIndex < lineText.length && /\s/.test(lineText[wsIndex])) {
-                      calculatedStartCol++;
-                    } else {
-                      break;
-                    }
-                  }
-                  break;
-                }
+              position = prevParam.range.getEndPosition();
+              // The comma is found in the tokens, so a ',' inside a quoted argument is skipped
+              const callEnd = parsed.fullRange.getEndPosition();
+              const comma = ScribanParseService.getTokensBetween(model, model.getOffsetAt(position), model.getOffsetAt(callEnd))
+                .find(token => token.type === 'punctuation' && token.value === ',');
+
+              if (comma) {
+                // Only the rest of the call is read, not the whole document
+                const afterComma = model.getPositionAt(comma.range.end);
+                const text = model.getValueInRange(monaco.Range.fromPositions(afterComma, callEnd));
+                position = model.getPositionAt(comma.range.end + text.length - text.trimStart().length);
               }
-              
-              startCol = calculatedStartCol;
-            } else {
-              // First parameter - after opening paren
-              startCol = parsed.openParenRange.endColumn;
             }
-            
-            range = new monaco.Range(
-              parsed.openParenRange.startLineNumber,
-              startCol,
-              parsed.openParenRange.startLineNumber,
-              startCol
-            );
+
+            range = monaco.Range.fromPositions(position, position);
           }
           
           return { parameterIndex: i, range };
@@ -402,6 +445,28 @@ export class FunctionCallParser {
     return null;
   }
 
+  /**
+   * Get the qualified identifier ending with the word at the given columns,
+   * e.g. `os.path_exists` for the word `path_exists` and `os` for the word `os`.
+   * Columns are 1-based like Monaco word ranges.
+   */
+  static getQualifiedNameAt(
+    lineText: string,
+    startColumn: number,
+    endColumn: number
+  ): { name: string; startColumn: number } {
+    let start = startColumn - 1;
+    while (start > 1 && lineText[start - 1] === '.' && /[a-zA-Z_0-9]/.test(lineText[start - 2])) {
+      start -= 2;
+      while (start > 0 && /[a-zA-Z_0-9]/.test(lineText[start - 1])) start--;
+    }
+
+    return {
+      name: lineText.substring(start, endColumn - 1),
+      startColumn: start + 1
+    };
+  }
+
   /**
    * Find marker range in the model.
    */
@@ -438,38 +503,40 @@ export class FunctionCallParser {
     functionName: string,
     nearPosition?: monaco.Position
   ): ParsedFunctionCall | null {
-    const lineCount = model.getLineCount();
-    let closestMatch: { parsed: ParsedFunctionCall; distance: number } | null = null;
-
-    // Search through all lines
-    for (let line = 1; line <= lineCount; line++) {
-      const lineText = model.getLineContent(line);
-      const funcNamePattern = new RegExp(`\\b${functionName}\\s*\\(`, 'g');
-      let match: RegExpExecArray | null;
-
-      while ((match = funcNamePattern.exec(lineText)) !== null) {
-        // Position right after the opening paren (inside the function call)
-        // match[0] is the full match like "copy(" - we want position after the "("
-        // match.index is 0-based, Monaco columns are 1-based, so +1 for conversion and +match[0].length for position
-        const position = new monaco.Position(line, match.index + match[0].length + 1);
-        const parsed = this.parseAtPosition(model, position);
-
-        if (parsed && parsed.functionName === functionName) {
-          // Calculate distance from nearPosition if provided
-          if (nearPosition) {
-            const distance = Math.abs(line - nearPosition.lineNumber);
-            if (!closestMatch || distance < closestMatch.distance) {
-              closestMatch = { parsed, distance };
-            }
-          } else {
-            // Return first match if no position specified
-            return parsed;
-          }
-        }
+    // Each call to the function, with an offset inside it: after the opening paren, or after the name
+    // and the space that follows it (parenless or piped call, or the name alone as a statement)
+    const calls = ScribanParseService.getCalls(model)
+      .filter(call => getQualifiedName(call.callee) === functionName)
+      .map(call => ({
+        offset: call.openParen ? call.openParen.end : call.callee.range.end + 1,
+        start: call.range.start,
+        end: call.range.end
+      }));
+
+    // Closest calls first (0 inside the call), so only the call that is used gets parsed
+    if (nearPosition) {
+      const distanceOf = (call: { start: number; end: number }) => {
+        const start = model.getPositionAt(call.start);
+        const end = model.getPositionAt(call.end);
+        return monaco.Range.fromPositions(start, end).containsPosition(nearPosition)
+          ? 0
+          : Math.min(
+              Math.abs(start.lineNumber - nearPosition.lineNumber),
+              Math.abs(end.lineNumber - nearPosition.lineNumber)
+            );
+      };
+      const distances = new Map(calls.map(call => [call, distanceOf(call)]));
+      calls.sort((a, b) => distances.get(a)! - distances.get(b)!);
+    }
+
+    for (const call of calls) {
+      const parsed = this.parseAtPosition(model, model.getPositionAt(call.offset));
+      if (parsed && parsed.functionName === functionName) {
+        return parsed;
       }
     }
 
-    return closestMatch?.parsed || null;
+    return null;
   }
 }
 
@@ -0,0 +1,177 @@
+import { CUSTOM_FUNCTIONS } from '../config';
+import { CustomFunction, CustomNamespace } from '../types';
+import { DebugLogger } from '../utils/debugLogger';
+
+export type CatalogListener = () => void;
+
+/**
+ * Holds the function catalog used by the parser, the Monaco providers and the pickers.
+ *
+ * Starts with the built-in CUSTOM_FUNCTIONS and can be changed at runtime: swapped as a whole
+ * (e.g. after loading an ApiSpec file) or edited function by function by the host application
+ * (e.g. when a plugin is installed). Consumers must look functions up on every use instead of
+ * caching them, so a change takes effect immediately; consumers holding derived state
+ * (diagnostics, the sidebar) subscribe to be told about changes.
+ *
+ * Every change replaces the arrays, so `getFunctions()` can be used as a snapshot.
+ *
+ * Namespace members are stored as regular functions with a qualified name (`os.path_exists`).
+ */
+export class FunctionCatalog {
+  private static functions: CustomFunction[] = CUSTOM_FUNCTIONS;
+  private static namespaces: CustomNamespace[] = [];
+  private static listeners = new Set<CatalogListener>();
+
+  /**
+   * Get all functions in the current catalog, including namespace members.
+   */
+  static getFunctions(): CustomFunction[] {
+    return this.functions;
+  }
+
+  /**
+   * Get the functions that are not members of a namespace.
+   */
+  static getGlobalFunctions(): CustomFunction[] {
+    return this.functions.filter(f => !f.name.includes('.'));
+  }
+
+  /**
+   * Find a function definition by (qualified) name.
+   */
+  static findFunction(name: string): CustomFunction | undefined {
+    return this.functions.find(f => f.name === name);
+  }
+
+  /**
+   * Get the names of all functions in the current catalog.
+   */
+  static getFunctionNames(): string[] {
+    return this.functions.map(f => f.name);
+  }
+
+  /**
+   * Get all object namespaces in the current catalog.
+   */
+  static getNamespaces(): CustomNamespace[] {
+    return this.namespaces;
+  }
+
+  /**
+   * Find a namespace by name.
+   */
+  static findNamespace(name: string): CustomNamespace | undefined {
+    return this.namespaces.find(ns => ns.name === name);
+  }
+
+  /**
+   * Get the member functions of a namespace.
+   */
+  static getMembers(namespace: string): CustomFunction[] {
+    const prefix = `${namespace}.`;
+    return this.functions.filter(f =>
+      f.name.startsWith(prefix) && !f.name.substring(prefix.length).includes('.')
+    );
+  }
+
+  /**
+   * Get the unqualified member name of a function (`os.path_exists` -> `path_exists`).
+   */
+  static getMemberName(func: CustomFunction): string {
+    return func.name.substring(func.name.lastIndexOf('.') + 1);
+  }
+
+  /**
+   * Replace the whole catalog.
+   */
+  static setFunctions(functions: CustomFunction[], namespaces: CustomNamespace[] = []): void {
+    DebugLogger.general('[FUNCTION_CATALOG] Replacing catalog:', functions.map(f => f.name));
+    this.functions = functions;
+    this.namespaces = namespaces;
+    this.notify();
+  }
+
+  /**
+   * Add functions to the catalog. A function with the same (qualified) name as an existing one
+   * replaces it in place. Members of a namespace need the namespace to be registered too.
+   */
+  static register(functions: CustomFunction | CustomFunction[]): void {
+    const added = Array.isArray(functions) ? functions : [functions];
+    if (added.length === 0) return;
+    DebugLogger.general('[FUNCTION_CATALOG] Registering:', added.map(f => f.name));
+
+    const next = [...this.functions];
+    for (const func of added) {
+      const index = next.findIndex(f => f.name === func.name);
+      if (index >= 0) {
+        next[index] = func;
+      } else {
+        next.push(func);
+      }
+    }
+    this.functions = next;
+    this.notify();
+  }
+
+  /**
+   * Add a namespace with its member functions (qualified names, e.g. `os.path_exists`).
+   * Replaces a namespace of the same name, including its members.
+   */
+  static registerNamespace(namespace: CustomNamespace, members: CustomFunction[] = []): void {
+    DebugLogger.general('[FUNCTION_CATALOG] Registering namespace:', namespace.name);
+    const prefix = `${namespace.name}.`;
+    this.namespaces = [...this.namespaces.filter(ns => ns.name !== namespace.name), namespace];
+    this.functions = [...this.functions.filter(f => !f.name.startsWith(prefix)), ...members];
+    this.notify();
+  }
+
+  /**
+   * Remove functions or namespaces by (qualified) name; removing a namespace removes its members.
+   * Returns true if anything was removed.
+   */
+  static unregister(names: string | string[]): boolean {
+    const removed = new Set(Array.isArray(names) ? names : [names]);
+    const prefixes = this.namespaces.filter(ns => removed.has(ns.name)).map(ns => `${ns.name}.`);
+
+    const functions = this.functions.filter(f =>
+      !removed.has(f.name) && !prefixes.some(prefix => f.name.startsWith(prefix))
+    );
+    const namespaces = this.namespaces.filter(ns => !removed.has(ns.name));
+    if (functions.length === this.functions.length && namespaces.length === this.namespaces.length) {
+      return false;
+    }
+
+    DebugLogger.general('[FUNCTION_CATALOG] Unregistering:', [...removed]);
+    this.functions = functions;
+    this.namespaces = namespaces;
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Call `listener` after every change of the catalog. Returns a function that unsubscribes it.
+   */
+  static subscribe(listener: CatalogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[FUNCTION_CATALOG] Listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Restore the built-in CUSTOM_FUNCTIONS catalog.
+   */
+  static reset(): void {
+    this.setFunctions(CUSTOM_FUNCTIONS);
+  }
+}
@@ -1,6 +1,7 @@
 import * as monaco from 'monaco-editor';
 import { FunctionCallParser } from './functionCallParser';
 import { RangeUtils } from './rangeUtils';
+import { ScribanParseService } from './scribanParseService';
 import { TIMING } from '../constants/timing';
 import { DebugLogger } from '../utils/debugLogger';
 import { delayedPickerOpen } from '../utils/timingUtils';
@@ -79,23 +80,13 @@ export class MarkerDetectionService {
       DebugLogger.markerDetection('No paramInfo found, trying to parse function call directly');
 
       // Fallback: search backwards from marker to find the function call
-      // Look for the opening parenthesis before the marker
-      const markerLine = range.startLineNumber;
-      const markerCol = range.startColumn;
-      const lineText = model.getLineContent(markerLine);
-
-      // Search backwards from marker to find opening parenthesis
-      let parenPos = -1;
-      for (let i = markerCol - 2; i >= 0; i--) {
-        if (lineText[i] === '(') {
-          parenPos = i;
-          break;
-        }
-      }
+      // Look for the opening parenthesis around the marker (possibly on a previous line);
+      // parentheses inside strings and those closed before the marker are skipped
+      const parenOffset = ScribanParseService.getOpenParensAt(model, model.getOffsetAt(range.getStartPosition())).pop();
 
-      if (parenPos >= 0) {
-        // Parse at the opening parenthesis position
-        const parsePos = new monaco.Position(markerLine, parenPos + 1);
+      if (parenOffset !== undefined) {
+        // Parse right after the opening parenthesis
+        const parsePos = model.getPositionAt(parenOffset + 1);
         DebugLogger.markerDetection('Parsing at opening paren position:', parsePos);
         const parsed = FunctionCallParser.parseAtPosition(model, parsePos);
 
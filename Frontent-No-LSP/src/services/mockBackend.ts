@@ -1,9 +1,8 @@
-import { Diagnostic } from '../types';
-import { ScribanParser } from './scribanParser';
+import { Diagnostic, ScribanMode } from '../types';
+import { ValidationWorkerClient } from './validationWorkerClient';
 
-export async function validateScriban(script: string): Promise<Diagnostic[]> {
+export async function validateScriban(script: string, mode: ScribanMode = 'script'): Promise<Diagnostic[]> {
   await new Promise(resolve => setTimeout(resolve, 100));
   
-  return ScribanParser.validate(script);
+  return ValidationWorkerClient.validate(script, mode);
 }
-
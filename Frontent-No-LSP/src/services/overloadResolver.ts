@@ -0,0 +1,98 @@
+import { CustomFunction, FunctionOverload, FunctionParameter } from '../types';
+import { ArgumentType, isArgumentTypeCompatible } from '../utils/argumentUtils';
+import { getRequiredParameterCount } from '../utils/signatureUtils';
+
+export interface ResolvedOverload {
+  overload: FunctionOverload;
+  index: number;        // Index in getSignatures(func), used as Monaco activeSignature
+  fitsCount: boolean;   // False if no signature accepts this many arguments
+}
+
+/**
+ * Picks the signature of a function that best matches the arguments of a call.
+ */
+export class OverloadResolver {
+  /**
+   * All signatures of a function: the primary signature first, then `overloads`.
+   */
+  static getSignatures(func: CustomFunction): FunctionOverload[] {
+    return [
+      { signature: func.signature, parameters: func.parameters, doc: func.doc },
+      ...(func.overloads ?? [])
+    ];
+  }
+
+  /**
+   * Highest parameter count over all signatures.
+   */
+  static getMaxParameterCount(func: CustomFunction): number {
+    return Math.max(...this.getSignatures(func).map(s =>
+      this.hasRestParameter(s.parameters) ? Infinity : s.parameters.length
+    ));
+  }
+
+  /**
+   * True if the last parameter is a rest parameter.
+   */
+  static hasRestParameter(parameters: FunctionParameter[]): boolean {
+    return parameters.length > 0 && parameters[parameters.length - 1].rest === true;
+  }
+
+  /**
+   * Get the parameter definition for an argument position.
+   * Arguments past the end map onto a trailing rest parameter.
+   */
+  static getParameterAt(parameters: FunctionParameter[], argumentIndex: number): FunctionParameter | undefined {
+    if (argumentIndex < parameters.length) {
+      return parameters[argumentIndex];
+    }
+    return this.hasRestParameter(parameters) ? parameters[parameters.length - 1] : undefined;
+  }
+
+  /**
+   * Resolve the best signature for the given argument types (one entry per argument, in order).
+   *
+   * Ranking: signatures that can take this many arguments come first, then the ones with
+   * fewer literal type mismatches, then fewer missing required arguments, then the ones
+   * with the fewest parameters left to fill.
+   * Ties keep declaration order.
+   */
+  static resolve(func: CustomFunction, argumentTypes: ArgumentType[]): ResolvedOverload {
+    const signatures = this.getSignatures(func);
+    let bestIndex = 0;
+    let bestScore: number[] | null = null;
+
+    for (let index = 0; index < signatures.length; index++) {
+      const params = signatures[index].parameters;
+      const hasRest = this.hasRestParameter(params);
+      const fitsCount = hasRest || argumentTypes.length <= params.length;
+      const mismatches = argumentTypes.filter((type, i) => {
+        const param = this.getParameterAt(params, i);
+        return param !== undefined && !isArgumentTypeCompatible(type, param.type);
+      }).length;
+      const missingRequired = Math.max(getRequiredParameterCount(params) - argumentTypes.length, 0);
+      const remaining = hasRest
+        ? Math.max(params.length - 1 - argumentTypes.length, 0)
+        : Math.abs(params.length - argumentTypes.length);
+      const score = [fitsCount ? 0 : 1, mismatches, missingRequired, remaining];
+
+      if (!bestScore || this.compareScores(score, bestScore) < 0) {
+        bestIndex = index;
+        bestScore = score;
+      }
+    }
+
+    return {
+      overload: signatures[bestIndex],
+      index: bestIndex,
+      fitsCount: bestScore ? bestScore[0] === 0 : true
+    };
+  }
+
+  private static compareScores(a: number[], b: number[]): number {
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return 0;
+  }
+}
@@ -0,0 +1,112 @@
+import { MARKER_TOKEN } from '../config';
+import { FunctionParameter } from '../types';
+import { OverloadResolver } from './overloadResolver';
+import { ArgumentKind, ArgumentText, classifyArgument } from '../utils/argumentUtils';
+import { StringQuote, unescapeString } from '../utils/stringLiteralUtils';
+
+/**
+ * A parameter of a signature with the argument written for it, as document offsets.
+ */
+export interface MatchedParameter {
+  index: number;             // Index in the signature (0-based)
+  parameter: FunctionParameter;
+  start: number;             // Range of the value: content of a quoted string (from after the opening quote),
+  end: number;               // the whole argument otherwise, empty at the insertion point if not written
+  value: string | null;      // Current value (without quotes, escapes resolved), or null if marker/empty
+  isMarker: boolean;         // True if the argument is the marker (quoted or not)
+  isQuoted: boolean;         // True if the argument is a single quoted string (or quoted marker)
+  quote: StringQuote | null; // Quote style of a quoted argument, so replacements keep it
+  kind: ArgumentKind;        // Expression kind of the argument ('empty' if not written)
+}
+
+/**
+ * Matches the arguments of a call to the parameters of its signature. Shared by
+ * FunctionCallParser (pickers, signature help) and ScribanParser (diagnostics), so both use the same ranges.
+ */
+export class ParameterMatcher {
+  /**
+   * Match written arguments (document offsets, the piped value first) to parameters.
+   * A rest parameter takes every remaining argument, so arguments beyond the definitions are kept;
+   * other arguments beyond the definitions are left out.
+   */
+  static match(
+    text: string,
+    listStart: number, // Document offset where written arguments start (after opening paren or name)
+    args: ArgumentText[],
+    parameterDefs: FunctionParameter[]
+  ): MatchedParameter[] {
+    const parameters: MatchedParameter[] = [];
+    const hasRest = OverloadResolver.hasRestParameter(parameterDefs);
+    const parameterCount = hasRest ? Math.max(parameterDefs.length, args.length) : parameterDefs.length;
+
+    for (let i = 0; i < parameterCount; i++) {
+      const parameter = OverloadResolver.getParameterAt(parameterDefs, i)!;
+      const arg = args[i];
+
+      if (!arg) {
+        // Parameter not present: empty, where it would be inserted (after the name, not the piped value)
+        const prevEnd = i > 0 ? Math.max(parameters[i - 1].end, listStart) : listStart;
+        parameters.push({
+          index: i,
+          parameter,
+          start: prevEnd,
+          end: prevEnd,
+          value: null,
+          isMarker: false,
+          isQuoted: false,
+          quote: null,
+          kind: 'empty'
+        });
+        continue;
+      }
+
+      const kind = classifyArgument(arg.text);
+      const isMarker = kind === 'marker';
+      const isQuoted = kind === 'string' || (isMarker && arg.text !== MARKER_TOKEN);
+
+      // For quoted strings, range should be content between quotes (for editing)
+      // For markers and other expressions, range is the whole argument (for replacement)
+      let start = arg.start;
+      let end = arg.end;
+      let value: string | null = arg.text || null;
+
+      if (kind === 'string') {
+        // start: after opening quote (first char of content)
+        // end: after closing quote (Monaco ranges are exclusive at end)
+        start = arg.start + 1;
+        value = unescapeString(arg.text.substring(1, arg.text.length - 1), arg.text[0] as StringQuote);
+      } else if (isMarker) {
+        value = null;
+      } else if (kind === 'empty') {
+        // Empty argument: the whitespace between its delimiters, up to the end of the comma's line;
+        // spanning lines, the indented line after the comma (keeping the line breaks).
+        // The first argument of the list (also after a piped value) starts at listStart
+        const delimiterStart = i === 0 || args[i - 1].end < listStart ? listStart : text.indexOf(',', args[i - 1].end) + 1;
+        const raw = text.substring(delimiterStart, arg.end);
+        const newlineIndex = raw.indexOf('\n');
+        start = delimiterStart;
+        if (newlineIndex !== -1) {
+          const lineStart = delimiterStart + newlineIndex + 1;
+          const lineEnd = text.indexOf('\n', lineStart);
+          start = lineStart + (text.substring(lineStart).match(/^[ \t]*/)?.[0].length ?? 0);
+          end = lineEnd !== -1 && lineEnd < arg.end ? lineEnd : arg.end;
+          start = Math.min(start, end);
+        }
+      }
+
+      parameters.push({
+        index: i,
+        parameter,
+        start,
+        end,
+        value,
+        isMarker,
+        isQuoted,
+        quote: isQuoted ? arg.text[0] as StringQuote : null,
+        kind
+      });
+    }
+
+    return parameters;
+  }
+}
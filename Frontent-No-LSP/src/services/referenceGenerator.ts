@@ -0,0 +1,217 @@
+import { CustomFunction, CustomNamespace, FunctionParameter } from '../types';
+import { OverloadResolver } from './overloadResolver';
+import { describeConstraints } from '../utils/constraintUtils';
+
+export type ReferenceFormat = 'markdown' | 'html';
+
+interface ReferenceGroup {
+  category: string;
+  functions: CustomFunction[];
+}
+
+const DEFAULT_CATEGORY = 'Other';
+const DEFAULT_TITLE = 'Function Reference';
+
+const PARAMETER_COLUMNS = ['Parameter', 'Type', 'Path type', 'Source', 'Optional', 'Description'];
+
+/**
+ * Generates a reference document (Markdown or standalone HTML) from a function catalog,
+ * so the documentation is produced from the same definitions as the editor.
+ *
+ * Functions are grouped by category in catalog order. Each signature gets a parameter table
+ * (type, pathType, isSource, optional/default); docs, deprecation, return type and examples follow.
+ */
+export class ReferenceGenerator {
+  static generate(
+    format: ReferenceFormat,
+    functions: CustomFunction[],
+    namespaces: CustomNamespace[] = [],
+    title: string = DEFAULT_TITLE
+  ): string {
+    return format === 'html'
+      ? this.toHtml(functions, namespaces, title)
+      : this.toMarkdown(functions, namespaces, title);
+  }
+
+  static toMarkdown(functions: CustomFunction[], namespaces: CustomNamespace[] = [], title: string = DEFAULT_TITLE): string {
+    const lines: string[] = [`# ${title}`, ''];
+
+    if (namespaces.length > 0) {
+      lines.push('## Namespaces', '');
+      namespaces.forEach(ns => lines.push(`- \`${ns.name}\`: ${ns.doc}`));
+      lines.push('');
+    }
+
+    for (const group of this.groupByCategory(functions)) {
+      lines.push(`## ${group.category}`, '');
+      for (const func of group.functions) {
+        lines.push(`### \`${func.name}\``, '', func.doc, '');
+
+        if (func.deprecated) {
+          const replacement = func.deprecated.replacement ? ` Use \`${func.deprecated.replacement}\` instead.` : '';
+          lines.push(`> ⚠️ **Deprecated**: ${func.deprecated.message}${replacement}`, '');
+        }
+
+        for (const signature of OverloadResolver.getSignatures(func)) {
+          lines.push(`#### \`${signature.signature}\``, '');
+          if (signature.doc && signature.doc !== func.doc) {
+            lines.push(signature.doc, '');
+          }
+          if (signature.parameters.length === 0) {
+            lines.push('No parameters.', '');
+            continue;
+          }
+          lines.push(`| ${PARAMETER_COLUMNS.join(' | ')} |`, `|${PARAMETER_COLUMNS.map(() => ' --- |').join('')}`);
+          signature.parameters.forEach(param => {
+            const cells = this.describeParameter(param).map((cell, index) =>
+              index === 0 ? `\`${cell}\`` : this.escapeMarkdownCell(cell)
+            );
+            lines.push(`| ${cells.join(' | ')} |`);
+          });
+          lines.push('');
+        }
+
+        if (func.returnType) {
+          lines.push(`**Returns**: \`${func.returnType}\``, '');
+        }
+
+        if (func.examples && func.examples.length > 0) {
+          lines.push('**Examples**:', '', '```scriban', ...func.examples, '```', '');
+        }
+
+        if (func.tags && func.tags.length > 0) {
+          lines.push(`**Tags**: ${func.tags.join(', ')}`, '');
+        }
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  static toHtml(functions: CustomFunction[], namespaces: CustomNamespace[] = [], title: string = DEFAULT_TITLE): string {
+    const esc = (text: string) => this.escapeHtml(text);
+    const parts: string[] = [];
+
+    if (namespaces.length > 0) {
+      parts.push('<h2>Namespaces</h2>', '<ul>');
+      namespaces.forEach(ns => parts.push(`<li><code>${esc(ns.name)}</code>: ${esc(ns.doc)}</li>`));
+      parts.push('</ul>');
+    }
+
+    for (const group of this.groupByCategory(functions)) {
+      parts.push(`<h2>${esc(group.category)}</h2>`);
+      for (const func of group.functions) {
+        parts.push(`<section id="${esc(func.name)}">`, `<h3><code>${esc(func.name)}</code></h3>`, `<p>${esc(func.doc)}</p>`);
+
+        if (func.deprecated) {
+          const replacement = func.deprecated.replacement
+            ? ` Use <code>${esc(func.deprecated.replacement)}</code> instead.`
+            : '';
+          parts.push(`<p class="deprecated">⚠️ <strong>Deprecated</strong>: ${esc(func.deprecated.message)}${replacement}</p>`);
+        }
+
+        for (const signature of OverloadResolver.getSignatures(func)) {
+          parts.push(`<h4><code>${esc(signature.signature)}</code></h4>`);
+          if (signature.doc && signature.doc !== func.doc) {
+            parts.push(`<p>${esc(signature.doc)}</p>`);
+          }
+          if (signature.parameters.length === 0) {
+            parts.push('<p>No parameters.</p>');
+            continue;
+          }
+          parts.push('<table>', `<tr>${PARAMETER_COLUMNS.map(c => `<th>${c}</th>`).join('')}</tr>`);
+          signature.parameters.forEach(param => {
+            const cells = this.describeParameter(param).map((cell, index) =>
+              index === 0 ? `<td><code>${esc(cell)}</code></td>` : `<td>${esc(cell)}</td>`
+            );
+            parts.push(`<tr>${cells.join('')}</tr>`);
+          });
+          parts.push('</table>');
+        }
+
+        if (func.returnType) {
+          parts.push(`<p><strong>Returns</strong>: <code>${esc(func.returnType)}</code></p>`);
+        }
+
+        if (func.examples && func.examples.length > 0) {
+          parts.push('<p><strong>Examples</strong>:</p>', `<pre><code>${esc(func.examples.join('\n'))}</code></pre>`);
+        }
+
+        if (func.tags && func.tags.length > 0) {
+          parts.push(`<p><strong>Tags</strong>: ${esc(func.tags.join(', '))}</p>`);
+        }
+
+        parts.push('</section>');
+      }
+    }
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${esc(title)}</title>`,
+      '<style>',
+      'body { font-family: sans-serif; max-width: 960px; margin: 0 auto; padding: 24px; color: #333; }',
+      'table { border-collapse: collapse; width: 100%; margin-bottom: 12px; }',
+      'th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; vertical-align: top; }',
+      'pre { background: #f5f5f5; padding: 8px; }',
+      '.deprecated { color: #b26a00; }',
+      '</style>',
+      '</head>',
+      '<body>',
+      `<h1>${esc(title)}</h1>`,
+      ...parts,
+      '</body>',
+      '</html>',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Table cells of a parameter, in PARAMETER_COLUMNS order.
+   */
+  private static describeParameter(param: FunctionParameter): string[] {
+    const details: string[] = [];
+    if (param.type === 'enum' && param.options) {
+      details.push(param.options.map(o => o.description ? `"${o.value}" (${o.description})` : `"${o.value}"`).join(', '));
+    }
+    if (param.constraints) details.push(describeConstraints(param.constraints));
+    if (param.macros && param.macros.length > 0) details.push(`macros: ${param.macros.join(', ')}`);
+    const type = details.length > 0 ? `${param.type}: ${details.join('; ')}` : param.type;
+
+    let optional = param.optional ? 'yes' : 'no';
+    if (param.optional && param.defaultValue !== undefined) optional = `yes (default ${param.defaultValue})`;
+    if (param.rest) optional = 'rest';
+
+    return [
+      param.rest ? `...${param.name}` : param.name,
+      type,
+      param.type === 'path' ? param.pathType ?? 'both' : '',
+      param.type === 'path' ? (param.isSource ? 'yes' : 'no') : '',
+      optional,
+      param.description ?? ''
+    ];
+  }
+
+  private static groupByCategory(functions: CustomFunction[]): ReferenceGroup[] {
+    const groups = new Map<string, CustomFunction[]>();
+    for (const func of functions) {
+      const category = func.category ?? DEFAULT_CATEGORY;
+      groups.set(category, [...(groups.get(category) ?? []), func]);
+    }
+    return [...groups.entries()].map(([category, categoryFunctions]) => ({ category, functions: categoryFunctions }));
+  }
+
+  private static escapeMarkdownCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  }
+
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,445 @@
+import { StringQuote } from '../utils/stringLiteralUtils';
+
+/**
+ * AST of a Scriban script, produced by ScribanAstParser.
+ * Ranges are document offsets (end exclusive), so the AST does not depend on Monaco;
+ * use LineIndex to turn them into line/column positions.
+ */
+
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export interface ParseError {
+  message: string;
+  range: SourceRange;
+  severity: 'error' | 'warning';
+  related?: RelatedLocation; // Another place the error refers to, e.g. the opener of an unclosed block
+}
+
+export interface RelatedLocation {
+  message: string;
+  range: SourceRange;
+}
+
+interface BaseNode {
+  range: SourceRange;
+}
+
+// Expressions
+
+export interface StringLiteral extends BaseNode {
+  type: 'StringLiteral';
+  value: string;  // Value of the literal (escapes resolved)
+  quote: StringQuote;
+}
+
+/**
+ * `$"...{expression}..."`: the expressions of the interpolations, in order.
+ */
+export interface InterpolatedString extends BaseNode {
+  type: 'InterpolatedString';
+  expressions: Expression[];
+}
+
+export interface NumberLiteral extends BaseNode {
+  type: 'NumberLiteral';
+  value: number;
+}
+
+export interface BooleanLiteral extends BaseNode {
+  type: 'BooleanLiteral';
+  value: boolean;
+}
+
+export interface NullLiteral extends BaseNode {
+  type: 'NullLiteral';
+}
+
+export interface Identifier extends BaseNode {
+  type: 'Identifier';
+  name: string;
+}
+
+export interface MemberExpression extends BaseNode {
+  type: 'MemberExpression';
+  object: Expression;
+  property: Identifier;
+}
+
+export interface IndexExpression extends BaseNode {
+  type: 'IndexExpression';
+  object: Expression;
+  index: Expression;
+}
+
+/**
+ * `f(a, b)`, parenless `f a b`, or a pipe `a | f b` where the piped value is the first argument.
+ */
+export interface CallExpression extends BaseNode {
+  type: 'CallExpression';
+  callee: Expression;
+  args: Expression[];              // Including the piped value, first
+  openParen: SourceRange | null;   // null for a parenless call
+  closeParen: SourceRange | null;  // null if the call is not closed, or parenless
+  piped: boolean;                  // True if args[0] is the value before `|`
+}
+
+export interface ArrayLiteral extends BaseNode {
+  type: 'ArrayLiteral';
+  elements: Expression[];
+}
+
+export interface ObjectProperty extends BaseNode {
+  type: 'ObjectProperty';
+  key: Identifier | StringLiteral;
+  value: Expression;
+}
+
+export interface ObjectLiteral extends BaseNode {
+  type: 'ObjectLiteral';
+  properties: ObjectProperty[];
+}
+
+export interface UnaryExpression extends BaseNode {
+  type: 'UnaryExpression';
+  operator: string;
+  operand: Expression;
+}
+
+export interface BinaryExpression extends BaseNode {
+  type: 'BinaryExpression';
+  operator: string;
+  left: Expression;
+  right: Expression;
+}
+
+export interface ParenthesizedExpression extends BaseNode {
+  type: 'ParenthesizedExpression';
+  expression: Expression;
+}
+
+/**
+ * Placeholder for an expression that could not be parsed (the error is reported separately).
+ */
+export interface ErrorExpression extends BaseNode {
+  type: 'ErrorExpression';
+}
+
+export type Expression =
+  | StringLiteral
+  | InterpolatedString
+  | NumberLiteral
+  | BooleanLiteral
+  | NullLiteral
+  | Identifier
+  | MemberExpression
+  | IndexExpression
+  | CallExpression
+  | ArrayLiteral
+  | ObjectLiteral
+  | UnaryExpression
+  | BinaryExpression
+  | ParenthesizedExpression
+  | ErrorExpression;
+
+// Statements
+
+export interface ExpressionStatement extends BaseNode {
+  type: 'ExpressionStatement';
+  expression: Expression;
+}
+
+export interface AssignmentStatement extends BaseNode {
+  type: 'AssignmentStatement';
+  target: Expression;
+  operator: string; // '=', '+=' or '-='
+  value: Expression;
+}
+
+/**
+ * Statements that open a body closed by `end`.
+ */
+interface BlockNode extends BaseNode {
+  keywordRange: SourceRange;
+  end: SourceRange | null; // null if the `end` is missing
+}
+
+export interface IfClause extends BaseNode {
+  type: 'IfClause';
+  keyword: 'if' | 'else if' | 'else';
+  keywordRange: SourceRange;
+  condition: Expression | null; // null for `else`
+  body: Statement[];
+}
+
+export interface IfStatement extends BlockNode {
+  type: 'IfStatement';
+  clauses: IfClause[]; // `if`, then any `else if`, then an optional `else`
+}
+
+export interface ForStatement extends BlockNode {
+  type: 'ForStatement';
+  keyword: 'for' | 'tablerow';
+  variable: Identifier | null;
+  iterable: Expression | null;
+  body: Statement[];
+}
+
+export interface WhileStatement extends BlockNode {
+  type: 'WhileStatement';
+  condition: Expression | null;
+  body: Statement[];
+}
+
+export interface FuncStatement extends BlockNode {
+  type: 'FuncStatement';
+  name: Identifier | null;
+  parameters: Identifier[];
+  body: Statement[];
+}
+
+export interface WhenClause extends BaseNode {
+  type: 'WhenClause';
+  keyword: 'when' | 'else';
+  keywordRange: SourceRange;
+  values: Expression[]; // Empty for `else`
+  body: Statement[];
+}
+
+export interface CaseStatement extends BlockNode {
+  type: 'CaseStatement';
+  value: Expression | null;
+  clauses: WhenClause[];
+}
+
+export interface CaptureStatement extends BlockNode {
+  type: 'CaptureStatement';
+  variable: Expression | null;
+  body: Statement[];
+}
+
+export interface WithStatement extends BlockNode {
+  type: 'WithStatement';
+  object: Expression | null;
+  body: Statement[];
+}
+
+export interface WrapStatement extends BlockNode {
+  type: 'WrapStatement';
+  target: Expression | null;
+  body: Statement[];
+}
+
+export interface ReturnStatement extends BaseNode {
+  type: 'ReturnStatement';
+  value: Expression | null;
+}
+
+export interface BreakStatement extends BaseNode {
+  type: 'BreakStatement';
+}
+
+export interface ContinueStatement extends BaseNode {
+  type: 'ContinueStatement';
+}
+
+export interface ImportStatement extends BaseNode {
+  type: 'ImportStatement';
+  object: Expression | null;
+}
+
+export interface ReadonlyStatement extends BaseNode {
+  type: 'ReadonlyStatement';
+  variable: Identifier | null;
+}
+
+export type BlockStatement =
+  | IfStatement
+  | ForStatement
+  | WhileStatement
+  | FuncStatement
+  | CaseStatement
+  | CaptureStatement
+  | WithStatement
+  | WrapStatement;
+
+export type Statement =
+  | ExpressionStatement
+  | AssignmentStatement
+  | BlockStatement
+  | ReturnStatement
+  | BreakStatement
+  | ContinueStatement
+  | ImportStatement
+  | ReadonlyStatement;
+
+export interface Script extends BaseNode {
+  type: 'Script';
+  body: Statement[];
+}
+
+export type AstNode = Script | Statement | Expression | IfClause | WhenClause | ObjectProperty;
+
+/**
+ * Child nodes of a node, in source order.
+ */
+export function getChildren(node: AstNode): AstNode[] {
+  const children: Array<AstNode | null> = [];
+  switch (node.type) {
+    case 'Script':
+      children.push(...node.body);
+      break;
+    case 'ExpressionStatement':
+      children.push(node.expression);
+      break;
+    case 'AssignmentStatement':
+      children.push(node.target, node.value);
+      break;
+    case 'IfStatement':
+      children.push(...node.clauses);
+      break;
+    case 'IfClause':
+      children.push(node.condition, ...node.body);
+      break;
+    case 'ForStatement':
+      children.push(node.variable, node.iterable, ...node.body);
+      break;
+    case 'WhileStatement':
+      children.push(node.condition, ...node.body);
+      break;
+    case 'FuncStatement':
+      children.push(node.name, ...node.parameters, ...node.body);
+      break;
+    case 'CaseStatement':
+      children.push(node.value, ...node.clauses);
+      break;
+    case 'WhenClause':
+      children.push(...node.values, ...node.body);
+      break;
+    case 'CaptureStatement':
+      children.push(node.variable, ...node.body);
+      break;
+    case 'WithStatement':
+      children.push(node.object, ...node.body);
+      break;
+    case 'WrapStatement':
+      children.push(node.target, ...node.body);
+      break;
+    case 'ReturnStatement':
+      children.push(node.value);
+      break;
+    case 'ImportStatement':
+      children.push(node.object);
+      break;
+    case 'ReadonlyStatement':
+      children.push(node.variable);
+      break;
+    case 'MemberExpression':
+      children.push(node.object, node.property);
+      break;
+    case 'IndexExpression':
+      children.push(node.object, node.index);
+      break;
+    case 'CallExpression':
+      children.push(node.callee, ...node.args);
+      break;
+    case 'InterpolatedString':
+      children.push(...node.expressions);
+      break;
+    case 'ArrayLiteral':
+      children.push(...node.elements);
+      break;
+    case 'ObjectLiteral':
+      children.push(...node.properties);
+      break;
+    case 'ObjectProperty':
+      children.push(node.key, node.value);
+      break;
+    case 'UnaryExpression':
+      children.push(node.operand);
+      break;
+    case 'BinaryExpression':
+      children.push(node.left, node.right);
+      break;
+    case 'ParenthesizedExpression':
+      children.push(node.expression);
+      break;
+  }
+  return children.filter((child): child is AstNode => child !== null);
+}
+
+/**
+ * Visit a node and its descendants depth-first in source order.
+ * Returning false from the visitor skips the node's children.
+ */
+export function walkAst(node: AstNode, visitor: (node: AstNode, parent: AstNode | null) => boolean | void, parent: AstNode | null = null): void {
+  if (visitor(node, parent) === false) return;
+  for (const child of getChildren(node)) {
+    walkAst(child, visitor, node);
+  }
+}
+
+/**
+ * Copy of a node (or of a parse error) with every range moved by `delta`, for nodes after an edit.
+ */
+export function shiftRanges<T>(value: T, delta: number): T {
+  if (Array.isArray(value)) {
+    return value.map(item => shiftRanges(item, delta)) as T;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  const copy = { ...value } as Record<string, unknown>;
+  for (const key in copy) {
+    const field = copy[key];
+    if (typeof field === 'object' && field !== null) {
+      copy[key] = shiftRanges(field, delta);
+    } else if (typeof field === 'number' && (key === 'start' || key === 'end')) {
+      copy[key] = field + delta;
+    }
+  }
+  return copy as T;
+}
+
+/**
+ * Qualified name of a callee (`copy`, `os.path_exists`), or null for other expressions.
+ */
+export function getQualifiedName(expression: Expression): string | null {
+  if (expression.type === 'Identifier') return expression.name;
+  if (expression.type === 'MemberExpression') {
+    const objectName = getQualifiedName(expression.object);
+    return objectName ? `${objectName}.${expression.property.name}` : null;
+  }
+  return null;
+}
+
+/**
+ * Converts document offsets to 1-based line/column positions.
+ */
+export class LineIndex {
+  private readonly lineStarts: number[] = [0];
+
+  constructor(text: string) {
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') this.lineStarts.push(i + 1);
+    }
+  }
+
+  positionAt(offset: number): { line: number; column: number } {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - this.lineStarts[low] + 1 };
+  }
+
+  offsetAt(line: number, column: number): number {
+    const lineStart = this.lineStarts[Math.min(Math.max(line, 1), this.lineStarts.length) - 1];
+    return lineStart + column - 1;
+  }
+}
@@ -0,0 +1,877 @@
+import {
+  BlockStatement,
+  CallExpression,
+  CaseStatement,
+  Expression,
+  ForStatement,
+  FuncStatement,
+  getQualifiedName,
+  Identifier,
+  IfClause,
+  InterpolatedString,
+  IfStatement,
+  ParseError,
+  RelatedLocation,
+  Script,
+  shiftRanges,
+  SourceRange,
+  Statement,
+  StringLiteral,
+  WhenClause
+} from './scribanAst';
+import { LexResult, ScribanLexer, TextEdit, Token } from './scribanLexer';
+import { ScribanMode } from '../types';
+import { StringQuote, unescapeString } from '../utils/stringLiteralUtils';
+
+export interface ParseResult {
+  ast: Script;
+  tokens: Token[];
+  comments: Token[];
+  text: SourceRange[];  // Template text outside code blocks (empty in script mode)
+  errors: ParseError[]; // Lexer and parser errors, in source order
+  lexErrors: ParseError[]; // The lexer's errors alone, reused by reparse
+  statements: ParsedStatement[]; // The top-level statements, reused by reparse
+}
+
+/**
+ * A top-level statement with the tokens it was parsed from (indexes, `end` exclusive) and its errors.
+ */
+export interface ParsedStatement {
+  start: number;
+  end: number;
+  statement: Statement | null; // null for a block terminator without an open block
+  errors: ParseError[];
+}
+
+/**
+ * The parse before an edit, and how far the text after the edit moved.
+ */
+interface PreviousParse {
+  tokens: Token[];
+  statements: ParsedStatement[];
+  delta: number;
+}
+
+// Keywords that close (part of) a block; statement lists stop at them
+const BLOCK_TERMINATORS = ['end', 'else', 'when'];
+
+// Binary operators from lowest to highest precedence (pipes are below all of them)
+const BINARY_PRECEDENCE: string[][] = [
+  ['??'],
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '>', '<=', '>='],
+  ['..', '..<'],
+  ['+', '-'],
+  ['*', '/', '%']
+];
+
+const ASSIGNMENT_OPERATORS = ['=', '+=', '-='];
+
+const PIPE_OPERATORS = ['|', '|>'];
+
+// Loop keywords that are also the loop's object, e.g. `for.index`, `while.first`
+const LOOP_OBJECT_KEYWORDS = ['for', 'tablerow', 'while'];
+
+/**
+ * Recursive-descent parser over the tokens of one script.
+ * Errors are collected instead of thrown: a statement that cannot be parsed is skipped
+ * up to the end of its line, a missing `end` or `)` closes the node where the input stops.
+ */
+class Parser {
+  private pos = 0;
+  private readonly errors: ParseError[] = [];
+  private inLoopHeader = false; // `reversed` after the iterable of a `for` is a loop parameter
+
+  constructor(private readonly tokens: Token[]) {}
+
+  /**
+   * Parse the top-level statements. With the parse before an edit, the statements whose tokens
+   * did not change are taken from it instead of being parsed again.
+   */
+  parseScript(previous?: PreviousParse): { ast: Script; errors: ParseError[]; statements: ParsedStatement[] } {
+    const statements: ParsedStatement[] = [];
+    const findReusable = previous ? this.createReuse(previous) : () => [];
+
+    while (true) {
+      this.skipSeparators();
+      if (this.atEnd()) break;
+
+      const reused = findReusable(this.pos);
+      if (reused.length > 0) {
+        reused.forEach(parsed => parsed.errors.forEach(e => this.error(e.message, e.range, e.related)));
+        statements.push(...reused);
+        this.pos = reused[reused.length - 1].end;
+        continue;
+      }
+
+      const start = this.pos;
+      const errorCount = this.errors.length;
+      let statement: Statement | null = null;
+      if (this.isKeyword(...BLOCK_TERMINATORS)) {
+        // Terminators without an open block
+        const token = this.advance();
+        const message = token.value === 'end'
+          ? 'Unexpected "end" without an open block'
+          : `"${token.value}" outside of ${token.value === 'else' ? '"if" or "case"' : '"case"'}`;
+        this.error(message, token.range);
+        this.skipStatement();
+      } else {
+        statement = this.parseStatementLine();
+      }
+      statements.push({ start, end: this.pos, statement, errors: this.errors.slice(errorCount) });
+    }
+
+    const body = statements.flatMap(parsed => parsed.statement ? [parsed.statement] : []);
+    const ast: Script = { type: 'Script', body, range: { start: 0, end: this.peek().range.end } };
+    return { ast, errors: this.errors, statements };
+  }
+
+  /**
+   * Find the previous statements that can be reused at a token index: a statement before the edit
+   * whose tokens (and the token after them) are unchanged, or from the first statement after the edit
+   * whose tokens are all unchanged, every remaining one, moved by the edit.
+   */
+  private createReuse(previous: PreviousParse): (pos: number) => ParsedStatement[] {
+    const { tokens: oldTokens, statements: oldStatements, delta } = previous;
+    const { tokens } = this;
+    const isSame = (token: Token, old: Token, shift: number) => token === old || (
+      token.type === old.type && token.value === old.value &&
+      token.range.start === old.range.start + shift && token.range.end === old.range.end + shift
+    );
+
+    let prefix = 0;
+    while (prefix < tokens.length && prefix < oldTokens.length && isSame(tokens[prefix], oldTokens[prefix], 0)) {
+      prefix++;
+    }
+    const maxSuffix = Math.min(tokens.length, oldTokens.length) - prefix;
+    let suffix = 0;
+    while (suffix < maxSuffix && isSame(tokens[tokens.length - 1 - suffix], oldTokens[oldTokens.length - 1 - suffix], delta)) {
+      suffix++;
+    }
+    const indexShift = tokens.length - oldTokens.length;
+
+    return pos => {
+      const oldPos = pos < prefix ? pos : pos - indexShift;
+      let next = 0;
+      let high = oldStatements.length;
+      while (next < high) {
+        const mid = (next + high) >> 1;
+        if (oldStatements[mid].start < oldPos) next = mid + 1;
+        else high = mid;
+      }
+      const old = oldStatements[next];
+      if (!old || old.start !== oldPos) return [];
+
+      if (pos < prefix && old.end + 1 < prefix) {
+        return [old];
+      }
+      if (pos >= tokens.length - suffix) {
+        return oldStatements.slice(next).map(parsed => ({
+          start: parsed.start + indexShift,
+          end: parsed.end + indexShift,
+          statement: shiftRanges(parsed.statement, delta),
+          errors: shiftRanges(parsed.errors, delta)
+        }));
+      }
+      return [];
+    };
+  }
+
+  // Statements
+
+  /**
+   * Parse statements until the end of input or a block terminator (`end`, `else`, `when`).
+   */
+  private parseStatements(): Statement[] {
+    const statements: Statement[] = [];
+    while (true) {
+      this.skipSeparators();
+      if (this.atEnd() || this.isKeyword(...BLOCK_TERMINATORS)) break;
+
+      const statement = this.parseStatementLine();
+      if (statement) statements.push(statement);
+    }
+    return statements;
+  }
+
+  /**
+   * Parse a statement and skip what follows it on its line.
+   * A statement ends at a newline, ';', the end of input or a block terminator.
+   */
+  private parseStatementLine(): Statement | null {
+    const errorCount = this.errors.length;
+    const statement = this.parseStatement();
+    if (!this.isStatementEnd() && this.errors.length === errorCount) {
+      const token = this.peek();
+      this.error(`Unexpected "${token.value}"`, token.range);
+    }
+    if (!this.isStatementEnd()) {
+      this.skipStatement();
+    }
+    return statement;
+  }
+
+  private parseStatement(): Statement | null {
+    const token = this.peek();
+    if (token.type === 'keyword' && !this.isLoopObject()) {
+      switch (token.value) {
+        case 'if':
+          return this.parseIf();
+        case 'for':
+        case 'tablerow':
+          return this.parseFor();
+        case 'while': {
+          const keyword = this.advance();
+          const condition = this.parseExpression();
+          return this.finishBlock({ type: 'WhileStatement', condition, ...this.blockStart(keyword) }, 'while');
+        }
+        case 'func':
+          return this.parseFunc();
+        case 'case':
+          return this.parseCase();
+        case 'capture': {
+          const keyword = this.advance();
+          const variable = this.parseExpression();
+          return this.finishBlock({ type: 'CaptureStatement', variable, ...this.blockStart(keyword) }, 'capture');
+        }
+        case 'with': {
+          const keyword = this.advance();
+          const object = this.parseExpression();
+          return this.finishBlock({ type: 'WithStatement', object, ...this.blockStart(keyword) }, 'with');
+        }
+        case 'wrap': {
+          const keyword = this.advance();
+          const target = this.parseExpression();
+          return this.finishBlock({ type: 'WrapStatement', target, ...this.blockStart(keyword) }, 'wrap');
+        }
+        case 'ret': {
+          const keyword = this.advance();
+          const value = this.isStatementEnd() ? null : this.parseExpression();
+          return { type: 'ReturnStatement', value, range: this.rangeFrom(keyword.range) };
+        }
+        case 'break':
+          return { type: 'BreakStatement', range: this.advance().range };
+        case 'continue':
+          return { type: 'ContinueStatement', range: this.advance().range };
+        case 'import': {
+          const keyword = this.advance();
+          const object = this.parseExpression();
+          return { type: 'ImportStatement', object, range: this.rangeFrom(keyword.range) };
+        }
+        case 'readonly': {
+          const keyword = this.advance();
+          const variable = this.parseIdentifier('variable name');
+          return { type: 'ReadonlyStatement', variable, range: this.rangeFrom(keyword.range) };
+        }
+      }
+    }
+
+    const expression = this.parseExpression();
+    if (this.isOperator(...ASSIGNMENT_OPERATORS)) {
+      const operator = this.advance().value;
+      if (!['Identifier', 'MemberExpression', 'IndexExpression'].includes(expression.type)) {
+        this.error('Invalid assignment target', expression.range);
+      }
+      const value = this.parseExpression();
+      return { type: 'AssignmentStatement', target: expression, operator, value, range: this.rangeFrom(expression.range) };
+    }
+    return { type: 'ExpressionStatement', expression, range: expression.range };
+  }
+
+  private parseIf(): IfStatement {
+    const ifToken = this.advance();
+    const clauses: IfClause[] = [];
+    let clause: IfClause = {
+      type: 'IfClause',
+      keyword: 'if',
+      keywordRange: ifToken.range,
+      condition: this.parseExpression(),
+      body: [],
+      range: ifToken.range
+    };
+
+    while (true) {
+      clause.body.push(...this.parseStatements());
+      clause.range = this.rangeFrom(clause.keywordRange);
+      clauses.push(clause);
+
+      if (this.isKeyword('else')) {
+        const elseToken = this.advance();
+        const isElseIf = this.isKeyword('if');
+        const keywordRange = isElseIf ? { start: elseToken.range.start, end: this.advance().range.end } : elseToken.range;
+        if (clauses[clauses.length - 1].keyword === 'else') {
+          this.error(`"${isElseIf ? 'else if' : 'else'}" after "else"`, keywordRange);
+        }
+        clause = {
+          type: 'IfClause',
+          keyword: isElseIf ? 'else if' : 'else',
+          keywordRange,
+          condition: isElseIf ? this.parseExpression() : null,
+          body: [],
+          range: keywordRange
+        };
+        continue;
+      }
+      if (this.isKeyword('when')) {
+        this.unexpectedTerminator(ifToken.range, 'if');
+        clause = clauses.pop()!;
+        continue;
+      }
+      break;
+    }
+
+    const statement: IfStatement = { type: 'IfStatement', clauses, keywordRange: ifToken.range, end: null, range: ifToken.range };
+    return this.closeBlock(statement, 'if');
+  }
+
+  private parseFor(): ForStatement {
+    const keyword = this.advance();
+    const variable = this.parseIdentifier('loop variable');
+    let iterable: Expression | null = null;
+    if (this.isKeyword('in')) {
+      this.advance();
+      this.inLoopHeader = true;
+      iterable = this.parseExpression();
+      // Loop parameters such as `limit:10 offset:2` and `reversed`
+      while (this.peek().type === 'identifier' && (this.peek(1).value === ':' || this.peek().value === 'reversed')) {
+        if (this.advance().value === 'reversed') continue;
+        this.advance();
+        this.parseExpression();
+      }
+      this.inLoopHeader = false;
+    } else if (variable) {
+      this.error('Expected "in"', this.peek().range);
+    }
+    return this.finishBlock(
+      { type: 'ForStatement', keyword: keyword.value as 'for' | 'tablerow', variable, iterable, ...this.blockStart(keyword) },
+      keyword.value
+    );
+  }
+
+  private parseFunc(): FuncStatement {
+    const keyword = this.advance();
+    const name = this.parseIdentifier('function name');
+    const parameters: Identifier[] = [];
+    if (this.isPunctuation('(')) {
+      const openParen = this.advance();
+      while (!this.isPunctuation(')') && !this.isStatementEnd()) {
+        const parameter = this.parseIdentifier('parameter name');
+        if (!parameter) break;
+        parameters.push(parameter);
+        if (!this.isPunctuation(',')) break;
+        this.advance();
+      }
+      if (this.isPunctuation(')')) {
+        this.advance();
+      } else {
+        this.error('Missing ")"', openParen.range);
+      }
+    }
+    return this.finishBlock({ type: 'FuncStatement', name, parameters, ...this.blockStart(keyword) }, 'func');
+  }
+
+  private parseCase(): CaseStatement {
+    const keyword = this.advance();
+    const value = this.parseExpression();
+    const clauses: WhenClause[] = [];
+
+    // Statements before the first `when` are not part of any branch
+    const leading = this.parseStatements();
+    if (leading.length > 0) {
+      this.error('Expected "when" or "else"', leading[0].range);
+    }
+
+    while (this.isKeyword('when', 'else')) {
+      const token = this.advance();
+      const values: Expression[] = [];
+      if (token.value === 'when') {
+        values.push(this.parseExpression());
+        while (this.isPunctuation(',')) {
+          this.advance();
+          values.push(this.parseExpression());
+        }
+      }
+      const body = this.parseStatements();
+      clauses.push({
+        type: 'WhenClause',
+        keyword: token.value as 'when' | 'else',
+        keywordRange: token.range,
+        values,
+        body,
+        range: this.rangeFrom(token.range)
+      });
+    }
+
+    const statement: CaseStatement = { type: 'CaseStatement', value, clauses, keywordRange: keyword.range, end: null, range: keyword.range };
+    return this.closeBlock(statement, 'case');
+  }
+
+  /**
+   * Fields shared by blocks whose body is a plain statement list.
+   */
+  private blockStart(keyword: Token): { keywordRange: SourceRange; end: null; body: Statement[]; range: SourceRange } {
+    return { keywordRange: keyword.range, end: null, body: [], range: keyword.range };
+  }
+
+  /**
+   * Parse the body of a block and its `end`. `else` and `when` are not valid here and are skipped.
+   */
+  private finishBlock<T extends BlockStatement & { body: Statement[] }>(statement: T, keyword: string): T {
+    while (true) {
+      statement.body.push(...this.parseStatements());
+      if (!this.isKeyword('else', 'when')) break;
+      this.unexpectedTerminator(statement.keywordRange, keyword);
+    }
+    return this.closeBlock(statement, keyword);
+  }
+
+  private closeBlock<T extends BlockStatement>(statement: T, keyword: string): T {
+    if (this.isKeyword('end')) {
+      statement.end = this.advance().range;
+    } else {
+      // Reported where the input stops, which is where the `end` is expected
+      this.error(
+        `Missing "end" for "${keyword}"`,
+        this.lastTokenRange(),
+        { message: `"${keyword}" block opened here`, range: statement.keywordRange }
+      );
+    }
+    statement.range = this.rangeFrom(statement.keywordRange);
+    return statement;
+  }
+
+  /**
+   * Skip an `else` or `when` that is not valid in the enclosing block.
+   */
+  private unexpectedTerminator(blockRange: SourceRange, keyword: string): void {
+    const token = this.advance();
+    this.error(
+      `"${token.value}" is not valid inside "${keyword}"`,
+      token.range,
+      { message: `"${keyword}" block opened here`, range: blockRange }
+    );
+    this.skipStatement();
+  }
+
+  // Expressions
+
+  /**
+   * An expression, with pipes: `value | func args` calls `func` with `value` as first argument.
+   */
+  private parseExpression(): Expression {
+    let expression = this.parseBinary(0);
+    while (this.isOperator(...PIPE_OPERATORS)) {
+      const pipe = this.advance();
+      expression = this.parsePipeTarget(expression, pipe);
+    }
+    return expression;
+  }
+
+  /**
+   * The function after a pipe, written as a name (`| string.upcase`), a parenless call
+   * (`| string.replace "a" "b"`) or a call with parentheses; the piped value is prepended to its arguments.
+   */
+  private parsePipeTarget(piped: Expression, pipe: Token): Expression {
+    const target = this.parseUnary();
+    const range = { start: piped.range.start, end: Math.max(target.range.end, pipe.range.end) };
+    if (target.type === 'CallExpression' && !target.piped) {
+      return { ...target, args: [piped, ...target.args], piped: true, range };
+    }
+    if (getQualifiedName(target)) {
+      return { type: 'CallExpression', callee: target, args: [piped], openParen: null, closeParen: null, piped: true, range };
+    }
+    if (target.type !== 'ErrorExpression') {
+      this.error(`Expected function after "${pipe.value}"`, target.range);
+    }
+    return { type: 'BinaryExpression', operator: pipe.value, left: piped, right: target, range };
+  }
+
+  private parseBinary(level: number): Expression {
+    if (level >= BINARY_PRECEDENCE.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    while (this.isOperator(...BINARY_PRECEDENCE[level])) {
+      const operator = this.advance().value;
+      const right = this.parseBinary(level + 1);
+      left = { type: 'BinaryExpression', operator, left, right, range: { start: left.range.start, end: right.range.end } };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    if (this.isOperator('!', '-', '+')) {
+      const operator = this.advance();
+      const operand = this.parseUnary();
+      return { type: 'UnaryExpression', operator: operator.value, operand, range: { start: operator.range.start, end: operand.range.end } };
+    }
+    const expression = this.parsePostfix(this.parsePrimary());
+    return getQualifiedName(expression) && this.isArgumentStart() ? this.parseParenlessCall(expression) : expression;
+  }
+
+  /**
+   * Arguments of a parenless call, `copy "a" "b/"`: operands separated by spaces up to the end of the line,
+   * an operator, a pipe or a closing bracket. `copy "a" + x` adds `x` to the call's result.
+   */
+  private parseParenlessCall(callee: Expression): CallExpression {
+    const args: Expression[] = [];
+    while (this.isArgumentStart()) {
+      args.push(this.parsePostfix(this.parsePrimary()));
+    }
+    const end = args.length > 0 ? args[args.length - 1].range.end : callee.range.end;
+    return { type: 'CallExpression', callee, args, openParen: null, closeParen: null, piped: false, range: { start: callee.range.start, end } };
+  }
+
+  /**
+   * True if the next token starts an argument of a parenless call. Names followed by `:`
+   * are not arguments (object keys, `for` parameters such as `limit:10`), nor is `reversed` in a `for` header.
+   */
+  private isArgumentStart(): boolean {
+    const token = this.peek();
+    switch (token.type) {
+      case 'string':
+      case 'number':
+        return true;
+      case 'identifier':
+        return this.peek(1).value !== ':' && !(this.inLoopHeader && token.value === 'reversed');
+      case 'keyword':
+        return token.value === 'true' || token.value === 'false' || token.value === 'null' || this.isLoopObject();
+      case 'punctuation':
+        return token.value === '{';
+      default:
+        return false;
+    }
+  }
+
+  private parsePostfix(expression: Expression): Expression {
+    while (true) {
+      if (this.isPunctuation('.')) {
+        this.advance();
+        const property = this.parseIdentifier('member name');
+        if (!property) return expression;
+        expression = { type: 'MemberExpression', object: expression, property, range: { start: expression.range.start, end: property.range.end } };
+      } else if (this.isPunctuation('[')) {
+        const open = this.advance();
+        const index = this.parseExpression();
+        const close = this.expectClosing(']', open);
+        expression = { type: 'IndexExpression', object: expression, index, range: { start: expression.range.start, end: close?.end ?? index.range.end } };
+      } else if (this.isPunctuation('(')) {
+        expression = this.parseCallArguments(expression);
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parseCallArguments(callee: Expression): CallExpression {
+    const open = this.advance();
+    const args = this.parseList(')');
+    const closeParen = this.isPunctuation(')') ? this.advance().range : null;
+    if (!closeParen) {
+      this.error('Missing ")"', open.range);
+    }
+    const end = closeParen?.end ?? (args.length > 0 ? args[args.length - 1].range.end : open.range.end);
+    return { type: 'CallExpression', callee, args, openParen: open.range, closeParen, piped: false, range: { start: callee.range.start, end } };
+  }
+
+  /**
+   * Parse comma-separated expressions up to (not including) the closing bracket.
+   * Line breaks are allowed inside the brackets; if the list is not closed, parsing stops
+   * at the line end so the next line is parsed as its own statement.
+   */
+  private parseList(close: string): Expression[] {
+    const items: Expression[] = [];
+    this.skipNewlines();
+    if (this.isPunctuation(close)) return items;
+
+    while (true) {
+      if (this.isPunctuation(',')) {
+        // Empty item, e.g. `copy(, "b")`; kept so later items keep their index
+        const comma = this.peek().range;
+        this.error('Expected expression', comma);
+        items.push({ type: 'ErrorExpression', range: { start: comma.start, end: comma.start } });
+      } else {
+        items.push(this.parseExpression());
+      }
+
+      const lineEnd = this.pos;
+      this.skipNewlines();
+      if (this.isPunctuation(',')) {
+        this.advance();
+        this.skipNewlines();
+        continue;
+      }
+      if (this.isPunctuation(close)) return items;
+
+      this.pos = lineEnd;
+      if (!this.isStatementEnd() && !this.isKeyword(...BLOCK_TERMINATORS)) {
+        this.error(`Expected "," or "${close}"`, this.peek().range);
+        while (!this.isStatementEnd() && !this.isPunctuation(close)) this.advance();
+      }
+      return items;
+    }
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.advance();
+        return { type: 'NumberLiteral', value: parseFloat(token.value), range: token.range };
+      case 'string':
+        this.advance();
+        return this.createString(token);
+      case 'identifier':
+        this.advance();
+        return { type: 'Identifier', name: token.value, range: token.range };
+      case 'keyword':
+        if (this.isLoopObject()) {
+          this.advance();
+          return { type: 'Identifier', name: token.value, range: token.range };
+        }
+        if (token.value === 'true' || token.value === 'false') {
+          this.advance();
+          return { type: 'BooleanLiteral', value: token.value === 'true', range: token.range };
+        }
+        if (token.value === 'null') {
+          this.advance();
+          return { type: 'NullLiteral', range: token.range };
+        }
+        break;
+      case 'punctuation':
+        if (token.value === '(') {
+          this.advance();
+          this.skipNewlines();
+          const expression = this.parseExpression();
+          this.skipNewlines();
+          const close = this.expectClosing(')', token);
+          return { type: 'ParenthesizedExpression', expression, range: { start: token.range.start, end: close?.end ?? expression.range.end } };
+        }
+        if (token.value === '[') {
+          this.advance();
+          const elements = this.parseList(']');
+          const close = this.expectClosing(']', token);
+          return { type: 'ArrayLiteral', elements, range: { start: token.range.start, end: close?.end ?? this.previousEnd() } };
+        }
+        if (token.value === '{') {
+          return this.parseObject();
+        }
+        break;
+    }
+
+    // Leave line ends, closing brackets and keywords to the caller; skip anything else
+    const canSkip = !this.isStatementEnd() && !(token.type === 'punctuation' && ')]},'.includes(token.value)) && token.type !== 'keyword';
+    this.error('Expected expression', token.range);
+    if (canSkip) this.advance();
+    return { type: 'ErrorExpression', range: { start: token.range.start, end: canSkip ? token.range.end : token.range.start } };
+  }
+
+  private parseObject(): Expression {
+    const open = this.advance();
+    const properties: Extract<Expression, { type: 'ObjectLiteral' }>['properties'] = [];
+    this.skipNewlines();
+
+    while (!this.isPunctuation('}') && !this.atEnd()) {
+      const keyToken = this.peek();
+      if (keyToken.type !== 'identifier' && keyToken.type !== 'string' && keyToken.type !== 'keyword') {
+        this.error('Expected property name', keyToken.range);
+        break;
+      }
+      this.advance();
+      const key = keyToken.type === 'string' && !keyToken.interpolations
+        ? this.createString(keyToken) as StringLiteral
+        : { type: 'Identifier' as const, name: keyToken.value, range: keyToken.range };
+      if (!this.isPunctuation(':')) {
+        this.error('Expected ":"', this.peek().range);
+        break;
+      }
+      this.advance();
+      const value = this.parseExpression();
+      properties.push({ type: 'ObjectProperty', key, value, range: { start: key.range.start, end: value.range.end } });
+      this.skipNewlines();
+      if (!this.isPunctuation(',')) break;
+      this.advance();
+      this.skipNewlines();
+    }
+
+    const close = this.expectClosing('}', open);
+    return { type: 'ObjectLiteral', properties, range: { start: open.range.start, end: close?.end ?? this.previousEnd() } };
+  }
+
+  private parseIdentifier(description: string): Identifier | null {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      this.error(`Expected ${description}`, token.range);
+      return null;
+    }
+    this.advance();
+    return { type: 'Identifier', name: token.value, range: token.range };
+  }
+
+  /**
+   * String literal node for a string token; interpolated strings parse the expression of each `{...}`.
+   */
+  private createString(token: Token): StringLiteral | InterpolatedString {
+    if (token.interpolations) {
+      const expressions = token.interpolations.map(interpolation => {
+        const parser = new Parser(interpolation.tokens);
+        const expression = parser.parseInterpolation(interpolation.range);
+        parser.errors.forEach(error => this.error(error.message, error.range, error.related));
+        return expression;
+      });
+      return { type: 'InterpolatedString', expressions, range: token.range };
+    }
+
+    const quote = token.value[0] as StringQuote;
+    const content = token.value.substring(1, token.terminated ? token.value.length - 1 : token.value.length);
+    return { type: 'StringLiteral', value: unescapeString(content, quote), quote, range: token.range };
+  }
+
+  /**
+   * Parse the tokens of an interpolation as one expression.
+   */
+  parseInterpolation(range: SourceRange): Expression {
+    if (this.atEnd()) {
+      this.error('Expected expression', range);
+      return { type: 'ErrorExpression', range };
+    }
+    const expression = this.parseExpression();
+    this.skipNewlines();
+    if (!this.atEnd()) {
+      const token = this.peek();
+      this.error(`Unexpected "${token.value}"`, token.range);
+    }
+    return expression;
+  }
+
+  private expectClosing(close: string, open: Token): SourceRange | null {
+    if (this.isPunctuation(close)) {
+      return this.advance().range;
+    }
+    this.error(`Missing "${close}"`, open.range);
+    return null;
+  }
+
+  // Token helpers
+
+  private peek(offset: number = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  private atEnd(): boolean {
+    return this.peek().type === 'eof';
+  }
+
+  private isKeyword(...values: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'keyword' && values.includes(token.value);
+  }
+
+  private isOperator(...values: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && values.includes(token.value);
+  }
+
+  private isPunctuation(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punctuation' && token.value === value;
+  }
+
+  /**
+   * A loop keyword followed by `.` is the loop object (`for.index`), not the start of a loop.
+   */
+  private isLoopObject(): boolean {
+    const next = this.peek(1);
+    return this.isKeyword(...LOOP_OBJECT_KEYWORDS) && next.type === 'punctuation' && next.value === '.';
+  }
+
+  private isStatementEnd(): boolean {
+    const token = this.peek();
+    return token.type === 'newline' || token.type === 'eof' || (token.type === 'punctuation' && token.value === ';');
+  }
+
+  private skipNewlines(): void {
+    while (this.peek().type === 'newline') this.pos++;
+  }
+
+  private skipSeparators(): void {
+    while (this.peek().type === 'newline' || this.isPunctuation(';')) this.pos++;
+  }
+
+  /**
+   * Skip to the end of the current statement (error recovery).
+   */
+  private skipStatement(): void {
+    while (!this.isStatementEnd()) this.advance();
+  }
+
+  private previousEnd(): number {
+    return this.pos > 0 ? this.tokens[this.pos - 1].range.end : 0;
+  }
+
+  private rangeFrom(start: SourceRange): SourceRange {
+    return { start: start.start, end: Math.max(start.end, this.previousEnd()) };
+  }
+
+  /**
+   * Range of the last token before the current one, ignoring newlines.
+   */
+  private lastTokenRange(): SourceRange {
+    for (let i = this.pos - 1; i >= 0; i--) {
+      if (this.tokens[i].type !== 'newline') return this.tokens[i].range;
+    }
+    return this.peek().range;
+  }
+
+  private error(message: string, range: SourceRange, related?: RelatedLocation): void {
+    // One error per position is enough; recovery may hit the same token again.
+    // Unclosed blocks all end at the same position and differ by their opener.
+    if (this.errors.some(e => e.range.start === range.start && e.related?.range.start === related?.range.start)) return;
+    this.errors.push({ message, range, severity: 'error', related });
+  }
+}
+
+/**
+ * Parser for Scriban script mode: tokens from ScribanLexer, AST from a recursive-descent parser
+ * with error recovery. The result is shared by validation, completion context, folding and outline.
+ */
+export class ScribanAstParser {
+  static parse(text: string, mode: ScribanMode = 'script'): ParseResult {
+    return this.parseTokens(ScribanLexer.tokenize(text, mode));
+  }
+
+  /**
+   * Parse `text` after one edit of the text `previous` was parsed from. Only the lines around the edit
+   * are lexed again (see ScribanLexer.retokenize), and only the top-level statements whose tokens changed
+   * are parsed again; the statements after the edit are copied with their ranges moved.
+   */
+  static reparse(previous: ParseResult, text: string, edit: TextEdit, mode: ScribanMode = 'script'): ParseResult {
+    const { tokens, comments, text: textRanges, lexErrors, statements } = previous;
+    const lexed = ScribanLexer.retokenize({ tokens, comments, text: textRanges, errors: lexErrors }, text, edit, mode);
+    return this.parseTokens(lexed, { tokens, statements, delta: edit.newEnd - edit.oldEnd });
+  }
+
+  private static parseTokens(lexed: LexResult, previous?: PreviousParse): ParseResult {
+    const { tokens, comments, text: textRanges, errors: lexErrors } = lexed;
+    const { ast, errors, statements } = new Parser(tokens).parseScript(previous);
+    return {
+      ast,
+      tokens,
+      comments,
+      text: textRanges,
+      errors: [...lexErrors, ...errors].sort((a, b) => a.range.start - b.range.start),
+      lexErrors,
+      statements
+    };
+  }
+}
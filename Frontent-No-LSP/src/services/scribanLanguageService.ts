@@ -0,0 +1,201 @@
+import {
+  AstNode,
+  BlockStatement,
+  getChildren,
+  LineIndex,
+  SourceRange,
+  Statement
+} from './scribanAst';
+import { ParseResult } from './scribanAstParser';
+import { Token } from './scribanLexer';
+
+/**
+ * Where the cursor is, for completion:
+ * - `none`: inside a string, comment or template text, nothing is suggested
+ * - `member`: after `object.`, members of `objectName` are suggested
+ * - `statement`: at the start of a statement, keywords are suggested along with functions
+ * - `expression`: inside an expression, functions and namespaces only
+ */
+export type CompletionContext =
+  | { kind: 'none' }
+  | { kind: 'member'; objectName: string }
+  | { kind: 'statement' }
+  | { kind: 'expression' };
+
+export interface FoldingRegion {
+  startLine: number; // 1-based
+  endLine: number;
+  kind?: 'comment';
+}
+
+export interface DocumentSymbol {
+  name: string;
+  detail: string;
+  kind: 'function' | 'variable' | 'block';
+  range: SourceRange;
+  selectionRange: SourceRange;
+  children: DocumentSymbol[];
+}
+
+const MAX_BLOCK_NAME_LENGTH = 40;
+
+/**
+ * Editor features computed from a ScribanAstParser result: completion context, folding and outline.
+ * Works on offsets like the AST, so it does not depend on Monaco.
+ */
+export class ScribanLanguageService {
+  static getCompletionContext(parsed: ParseResult, offset: number): CompletionContext {
+    if (parsed.comments.some(comment => this.containsOffset(comment, offset))) {
+      return { kind: 'none' };
+    }
+    if (parsed.text.some(range => range.start <= offset && offset <= range.end)) {
+      return { kind: 'none' };
+    }
+    return this.getTokenContext(parsed.tokens, offset);
+  }
+
+  private static getTokenContext(tokens: Token[], offset: number): CompletionContext {
+    const string = tokens.find(t => t.type === 'string' && this.containsOffset(t, offset));
+    if (string) {
+      // Inside `{...}` of an interpolated string the expression's own tokens decide
+      const interpolation = string.interpolations?.find(i => i.range.start <= offset && offset <= i.range.end);
+      if (!interpolation) return { kind: 'none' };
+      const context = this.getTokenContext(interpolation.tokens, offset);
+      return context.kind === 'statement' ? { kind: 'expression' } : context;
+    }
+
+    // Tokens before the cursor, without the word being typed
+    const before = tokens.filter(t => t.range.end <= offset && t.type !== 'eof');
+    const last = before[before.length - 1];
+    if (last && last.range.end === offset && (last.type === 'identifier' || last.type === 'keyword')) {
+      before.pop();
+    }
+    const previous = before[before.length - 1];
+
+    if (!previous || previous.type === 'newline' || previous.value === ';') {
+      return { kind: 'statement' };
+    }
+    if (previous.type === 'punctuation' && previous.value === '.') {
+      // Qualified object name before the dot, e.g. `os` in `os.pa|`
+      const names: string[] = [];
+      for (let i = before.length - 2; i >= 0 && before[i].type === 'identifier'; i -= 2) {
+        names.unshift(before[i].value);
+        if (before[i - 1]?.value !== '.') break;
+      }
+      return { kind: 'member', objectName: names.join('.') };
+    }
+    return { kind: 'expression' };
+  }
+
+  /**
+   * Foldable regions: blocks up to (not including) their `end` line, each `else`/`when` branch,
+   * calls whose arguments span lines, and block comments.
+   */
+  static getFoldingRegions(text: string, parsed: ParseResult): FoldingRegion[] {
+    const lineIndex = new LineIndex(text);
+    const lineOf = (offset: number) => lineIndex.positionAt(offset).line;
+    const regions: FoldingRegion[] = [];
+    const add = (start: number, endLine: number, kind?: 'comment') => {
+      const startLine = lineOf(start);
+      if (endLine > startLine) regions.push({ startLine, endLine, kind });
+    };
+
+    const visit = (node: AstNode) => {
+      if (this.isBlock(node)) {
+        const endLine = node.end ? lineOf(node.end.start) - 1 : lineOf(node.range.end);
+        const branches = node.type === 'IfStatement' || node.type === 'CaseStatement' ? node.clauses : [];
+        if (branches.length > 1) {
+          branches.forEach((branch, i) => {
+            add(branch.keywordRange.start, i + 1 < branches.length ? lineOf(branches[i + 1].keywordRange.start) - 1 : endLine);
+          });
+        } else {
+          add(node.keywordRange.start, endLine);
+        }
+      } else if (node.type === 'CallExpression' && node.openParen && node.closeParen) {
+        add(node.openParen.start, lineOf(node.closeParen.start) - 1);
+      }
+      getChildren(node).forEach(visit);
+    };
+    visit(parsed.ast);
+
+    parsed.comments.forEach(comment => add(comment.range.start, lineOf(comment.range.end), 'comment'));
+    return regions;
+  }
+
+  /**
+   * Outline of the script: functions, blocks and the first assignment of each variable per body.
+   */
+  static getDocumentSymbols(text: string, parsed: ParseResult): DocumentSymbol[] {
+    return this.getStatementSymbols(text, parsed.ast.body);
+  }
+
+  private static getStatementSymbols(text: string, statements: Statement[]): DocumentSymbol[] {
+    const symbols: DocumentSymbol[] = [];
+    const variables = new Set<string>();
+
+    for (const statement of statements) {
+      if (statement.type === 'AssignmentStatement' && statement.target.type === 'Identifier') {
+        if (variables.has(statement.target.name)) continue;
+        variables.add(statement.target.name);
+        symbols.push({
+          name: statement.target.name,
+          detail: text.substring(statement.value.range.start, statement.value.range.end),
+          kind: 'variable',
+          range: statement.range,
+          selectionRange: statement.target.range,
+          children: []
+        });
+      } else if (statement.type === 'FuncStatement') {
+        symbols.push({
+          name: statement.name?.name ?? 'func',
+          detail: statement.parameters.map(p => p.name).join(', '),
+          kind: 'function',
+          range: statement.range,
+          selectionRange: statement.name?.range ?? statement.keywordRange,
+          children: this.getStatementSymbols(text, statement.body)
+        });
+      } else if (this.isBlock(statement)) {
+        const bodies = statement.type === 'IfStatement' || statement.type === 'CaseStatement'
+          ? statement.clauses.map(clause => clause.body)
+          : [statement.body];
+        symbols.push({
+          name: this.getBlockName(text, statement),
+          detail: '',
+          kind: 'block',
+          range: statement.range,
+          selectionRange: statement.keywordRange,
+          children: bodies.flatMap(body => this.getStatementSymbols(text, body))
+        });
+      }
+    }
+
+    return symbols;
+  }
+
+  /**
+   * First line of a block, e.g. `for item in collection`.
+   */
+  private static getBlockName(text: string, block: BlockStatement): string {
+    const lineEnd = text.indexOf('\n', block.keywordRange.start);
+    const header = text.substring(block.keywordRange.start, lineEnd === -1 ? text.length : lineEnd).trim();
+    return header.length > MAX_BLOCK_NAME_LENGTH ? `${header.substring(0, MAX_BLOCK_NAME_LENGTH)}…` : header;
+  }
+
+  /**
+   * A closed string or block comment ends before its closing delimiter; line comments
+   * and unclosed strings/comments also contain the offset right after them.
+   */
+  private static containsOffset(token: Token, offset: number): boolean {
+    return token.range.start < offset &&
+      (offset < token.range.end || (offset === token.range.end && !this.isClosedToken(token)));
+  }
+
+  private static isClosedToken(token: Token): boolean {
+    const isBlockComment = token.type === 'comment' && (token.value.startsWith('##') || token.value.startsWith('/*'));
+    return (token.type === 'string' || isBlockComment) && token.terminated !== false;
+  }
+
+  private static isBlock(node: AstNode): node is BlockStatement {
+    return 'keywordRange' in node && 'end' in node;
+  }
+}
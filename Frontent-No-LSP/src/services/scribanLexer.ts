@@ -0,0 +1,314 @@
+import { ScribanMode } from '../types';
+import { SourceRange, ParseError } from './scribanAst';
+import { isStringStart, scanStringLiteral } from '../utils/stringLiteralUtils';
+
+export type TokenType =
+  | 'identifier'
+  | 'keyword'
+  | 'number'
+  | 'string'
+  | 'operator'
+  | 'punctuation'
+  | 'newline'
+  | 'comment'
+  | 'invalid'
+  | 'eof';
+
+/**
+ * 'newline' tokens also stand for the template delimiters `{{` and `}}`, which end statements as well.
+ */
+export interface Token {
+  type: TokenType;
+  value: string;      // Source text of the token (strings keep their quotes)
+  range: SourceRange;
+  terminated?: boolean; // Strings and block comments: false if the closing delimiter is missing
+  interpolations?: Interpolation[]; // Interpolated strings (`$"..."`): the tokens of each `{...}`
+}
+
+export interface Interpolation {
+  range: SourceRange;  // Expression text between the braces
+  tokens: Token[];     // Ending with an 'eof' token at the closing brace
+}
+
+export interface LexResult {
+  tokens: Token[];    // Without comments, always ending with an 'eof' token
+  comments: Token[];
+  text: SourceRange[]; // Template text outside code blocks, including escape blocks (empty in script mode)
+  errors: ParseError[];
+}
+
+/**
+ * One edited region: `start` to `oldEnd` in the previous text became `start` to `newEnd`.
+ */
+export interface TextEdit {
+  start: number;
+  oldEnd: number;
+  newEnd: number;
+}
+
+export const KEYWORDS = [
+  'if', 'else', 'end', 'for', 'in', 'tablerow', 'while', 'break', 'continue', 'ret', 'func',
+  'case', 'when', 'capture', 'with', 'wrap', 'import', 'readonly', 'true', 'false', 'null'
+];
+
+// Longest operators first, so `..<` is not read as `..` followed by `<`
+const OPERATORS = [
+  '..<', '==', '!=', '<=', '>=', '&&', '||', '??', '..', '|>', '+=', '-=',
+  '+', '-', '*', '/', '%', '<', '>', '!', '=', '|'
+];
+const PUNCTUATION = '()[]{},.:;';
+
+// Closing delimiters of a template code block, with whitespace control (`~}}`, `-}}`) first
+const CODE_CLOSE_DELIMITERS = ['~}}', '-}}', '}}'];
+
+const MISSING_CLOSE_DELIMITER = 'Missing "}}"';
+
+const shiftRange = (range: SourceRange, delta: number): SourceRange => ({ start: range.start + delta, end: range.end + delta });
+
+// Tokens of a nested interpolation are moved along with the string containing them
+const shiftToken = (token: Token, delta: number): Token => {
+  const shifted = { ...token, range: shiftRange(token.range, delta) };
+  if (token.interpolations) {
+    shifted.interpolations = token.interpolations.map(interpolation => ({
+      range: shiftRange(interpolation.range, delta),
+      tokens: interpolation.tokens.map(inner => shiftToken(inner, delta))
+    }));
+  }
+  return shifted;
+};
+
+/**
+ * Tokenizer for Scriban scripts.
+ * Comments are `#` / `//` to the end of the line, `## ... ##` and `/* ... *\/` blocks;
+ * strings are read by scanStringLiteral (escapes, verbatim and interpolated strings).
+ * Newlines are tokens because they end statements.
+ *
+ * In template mode only code blocks (`{{ ... }}`, `{{~ ... ~}}`) are tokenized; the text around them
+ * and escape blocks (`{%{ ... }%}`, whose content Scriban outputs verbatim) are returned as `text`.
+ */
+export class ScribanLexer {
+  static tokenize(text: string, mode: ScribanMode = 'script'): LexResult {
+    const result = this.lex(text, mode, 0, mode !== 'template');
+    this.checkCodeClosed(result.tokens, result.errors, mode);
+    return result;
+  }
+
+  /**
+   * Tokens of `text` after one edit, reusing the tokens of the previous text.
+   * Lexing resumes after the last line break before the edit and stops at the first line break after it
+   * that matches one of the previous tokens; the previous tokens after that point are moved by the edit's length.
+   */
+  static retokenize(previous: LexResult, text: string, edit: TextEdit, mode: ScribanMode = 'script'): LexResult {
+    const oldTokens = previous.tokens;
+    const delta = edit.newEnd - edit.oldEnd;
+
+    // After a line break the lexer is in code with nothing open, so it can resume there
+    let restartIndex = this.findTokenIndex(oldTokens, edit.start) - 1;
+    while (restartIndex >= 0 && !(this.isLineBreak(oldTokens[restartIndex]) && oldTokens[restartIndex].range.end <= edit.start)) {
+      restartIndex--;
+    }
+    if (restartIndex < 0) {
+      return this.tokenize(text, mode);
+    }
+    const restart = oldTokens[restartIndex].range.end;
+
+    // In step again at a line break after the edit that was also a line break before it
+    let syncIndex = -1;
+    const result = this.lex(text, mode, restart, true, token => {
+      if (token.range.start < edit.newEnd) return false;
+      const index = this.findTokenIndex(oldTokens, token.range.start - delta);
+      const old = oldTokens[index];
+      if (!old || !this.isLineBreak(old) || old.range.start !== token.range.start - delta) return false;
+      syncIndex = index;
+      return true;
+    });
+
+    const before = <T extends { range: SourceRange }>(items: T[]) => items.filter(item => item.range.start < restart);
+    const beforeRanges = previous.text.filter(range => range.start < restart);
+    const errors = [...before(previous.errors), ...result.errors];
+    const tokens = [...oldTokens.slice(0, restartIndex + 1), ...result.tokens];
+    const comments = [...before(previous.comments), ...result.comments];
+    const textRanges = [...beforeRanges, ...result.text];
+
+    if (syncIndex !== -1) {
+      const syncEnd = oldTokens[syncIndex].range.end;
+      const after = <T extends { range: SourceRange }>(items: T[]) => items.filter(item => item.range.start >= syncEnd);
+      tokens.push(...oldTokens.slice(syncIndex + 1).map(token => shiftToken(token, delta)));
+      comments.push(...after(previous.comments).map(comment => shiftToken(comment, delta)));
+      textRanges.push(...previous.text.filter(range => range.start >= syncEnd).map(range => shiftRange(range, delta)));
+      errors.push(...after(previous.errors).map(error => ({ ...error, range: shiftRange(error.range, delta) })));
+    }
+
+    const lexErrors = errors.filter(error => error.message !== MISSING_CLOSE_DELIMITER);
+    this.checkCodeClosed(tokens, lexErrors, mode);
+    return { tokens, comments, text: textRanges, errors: lexErrors };
+  }
+
+  /**
+   * Tokenize from `start` until the end of the text, or until `isInSync` accepts a line break.
+   * The 'eof' token is only added at the end of the text.
+   */
+  private static lex(
+    text: string,
+    mode: ScribanMode,
+    start: number,
+    startInCode: boolean,
+    isInSync?: (lineBreak: Token) => boolean
+  ): LexResult {
+    const tokens: Token[] = [];
+    const comments: Token[] = [];
+    const textRanges: SourceRange[] = [];
+    const errors: ParseError[] = [];
+    const isTemplate = mode === 'template';
+    let inCode = startInCode;
+    let i = start;
+
+    const push = (list: Token[], type: TokenType, start: number, end: number, terminated?: boolean) => {
+      list.push({ type, value: text.substring(start, end), range: { start, end }, terminated });
+    };
+
+    while (i < text.length) {
+      const char = text[i];
+      const start = i;
+      const closeDelimiter = isTemplate ? this.getCloseDelimiter(text, i) : null;
+
+      if (!inCode) {
+        i = this.readText(text, i, textRanges, errors);
+        if (i < text.length) {
+          // `{{`, with `~` or `-` for whitespace control
+          const end = i + (text[i + 2] === '~' || text[i + 2] === '-' ? 3 : 2);
+          push(tokens, 'newline', i, end);
+          inCode = true;
+          i = end;
+        }
+      } else if (closeDelimiter) {
+        i += closeDelimiter.length;
+        push(tokens, 'newline', start, i);
+        inCode = false;
+      } else if (char === '\n') {
+        push(tokens, 'newline', i, ++i);
+        if (isInSync?.(tokens[tokens.length - 1])) {
+          return { tokens, comments, text: textRanges, errors };
+        }
+      } else if (/\s/.test(char)) {
+        i++;
+      } else if (text.startsWith('##', i) || text.startsWith('/*', i)) {
+        const close = char === '#' ? '##' : '*/';
+        const closeIndex = text.indexOf(close, i + 2);
+        i = closeIndex === -1 ? text.length : closeIndex + 2;
+        push(comments, 'comment', start, i, closeIndex !== -1);
+        if (closeIndex === -1) {
+          errors.push({ message: 'Unclosed block comment', range: { start, end: i }, severity: 'warning' });
+        }
+      } else if (char === '#' || text.startsWith('//', i)) {
+        // In templates a line comment also ends at the closing delimiter
+        while (i < text.length && text[i] !== '\n' && !(isTemplate && this.getCloseDelimiter(text, i))) i++;
+        push(comments, 'comment', start, i);
+      } else if (isStringStart(text, i)) {
+        const { end, terminated, interpolations } = scanStringLiteral(text, i);
+        i = end;
+        push(tokens, 'string', start, i, terminated);
+        if (!terminated) {
+          errors.push({ message: 'Unclosed string literal', range: { start, end: i }, severity: 'error' });
+        }
+        if (text[start] === '$') {
+          tokens[tokens.length - 1].interpolations = interpolations.map(range => this.tokenizeInterpolation(text, range, errors));
+        }
+      } else if (/[0-9]/.test(char)) {
+        // `1..3` is a range, not the number `1.`
+        while (i < text.length && /[0-9]/.test(text[i])) i++;
+        if (text[i] === '.' && /[0-9]/.test(text[i + 1] ?? '')) {
+          i++;
+          while (i < text.length && /[0-9]/.test(text[i])) i++;
+        }
+        push(tokens, 'number', start, i);
+      } else if (/[a-zA-Z_$]/.test(char)) {
+        while (i < text.length && /[\w$]/.test(text[i])) i++;
+        push(tokens, KEYWORDS.includes(text.substring(start, i)) ? 'keyword' : 'identifier', start, i);
+      } else {
+        const operator = OPERATORS.find(op => text.startsWith(op, i));
+        if (operator) {
+          i += operator.length;
+          push(tokens, 'operator', start, i);
+        } else if (PUNCTUATION.includes(char)) {
+          push(tokens, 'punctuation', start, ++i);
+        } else {
+          push(tokens, 'invalid', start, ++i);
+          errors.push({ message: `Unexpected character "${char}"`, range: { start, end: i }, severity: 'error' });
+        }
+      }
+    }
+
+    tokens.push({ type: 'eof', value: '', range: { start: text.length, end: text.length } });
+    return { tokens, comments, text: textRanges, errors };
+  }
+
+  /**
+   * In template mode, report a code block still open at the end of the text (on its `{{`).
+   */
+  private static checkCodeClosed(tokens: Token[], errors: ParseError[], mode: ScribanMode): void {
+    if (mode !== 'template') return;
+    for (let k = tokens.length - 1; k >= 0; k--) {
+      const token = tokens[k];
+      if (token.type !== 'newline' || this.isLineBreak(token)) continue;
+      if (token.value.startsWith('{{')) {
+        errors.push({ message: MISSING_CLOSE_DELIMITER, range: token.range, severity: 'error' });
+      }
+      return;
+    }
+  }
+
+  private static isLineBreak(token: Token): boolean {
+    return token.type === 'newline' && token.value === '\n';
+  }
+
+  /**
+   * Index of the first token starting at or after `offset` (tokens are in source order).
+   */
+  private static findTokenIndex(tokens: Token[], offset: number): number {
+    let low = 0;
+    let high = tokens.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (tokens[mid].range.start < offset) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  /**
+   * Record the template text from `start` up to the next code block, skipping escape blocks.
+   * Returns the offset of the next `{{`, or the end of the text.
+   */
+  private static readText(text: string, start: number, textRanges: SourceRange[], errors: ParseError[]): number {
+    let i = start;
+    while (i < text.length) {
+      const codeStart = text.indexOf('{{', i);
+      const escapeStart = text.indexOf('{%{', i);
+      if (escapeStart === -1 || (codeStart !== -1 && codeStart < escapeStart)) {
+        i = codeStart === -1 ? text.length : codeStart;
+        break;
+      }
+      const escapeEnd = text.indexOf('}%}', escapeStart + 3);
+      if (escapeEnd === -1) {
+        errors.push({ message: 'Unclosed escape block', range: { start: escapeStart, end: escapeStart + 3 }, severity: 'warning' });
+      }
+      i = escapeEnd === -1 ? text.length : escapeEnd + 3;
+    }
+    if (i > start) textRanges.push({ start, end: i });
+    return i;
+  }
+
+  private static getCloseDelimiter(text: string, offset: number): string | null {
+    return CODE_CLOSE_DELIMITERS.find(delimiter => text.startsWith(delimiter, offset)) ?? null;
+  }
+
+  /**
+   * Tokens of the expression inside an interpolation, with document offsets.
+   */
+  private static tokenizeInterpolation(text: string, range: SourceRange, errors: ParseError[]): Interpolation {
+    const result = this.tokenize(text.substring(range.start, range.end));
+    errors.push(...result.errors.map(error => ({ ...error, range: shiftRange(error.range, range.start) })));
+    return { range, tokens: result.tokens.map(token => shiftToken(token, range.start)) };
+  }
+}
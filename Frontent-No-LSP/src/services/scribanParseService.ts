@@ -0,0 +1,351 @@
+import * as monaco from 'monaco-editor';
+import { CustomFunction, ScribanMode } from '../types';
+import { FunctionCatalog } from './functionCatalog';
+import { CallExpression, getQualifiedName, walkAst } from './scribanAst';
+import { ParseResult, ScribanAstParser } from './scribanAstParser';
+import { TextEdit, Token } from './scribanLexer';
+import { ScribanSymbolTable, SymbolTable } from './scribanSymbolTable';
+import { SymbolTypes } from './typeInference';
+import { getScribanMode } from '../utils/scribanModeUtils';
+
+/**
+ * A model's text parsed at one version.
+ */
+export interface ParsedDocument {
+  versionId: number;
+  mode: ScribanMode;
+  text: string;
+  codeText: string;   // The text with everything outside code blocks blanked out (see getCodeText)
+  parse: ParseResult;
+}
+
+/**
+ * Calls of a document sorted by position, outer calls before the calls they contain (see getCallsAt).
+ */
+interface CallIndex {
+  calls: CallExpression[];
+  reach: number[];  // reach[i]: furthest end of calls[0..i], including the spaces after it
+}
+
+/**
+ * Parentheses of a document's tokens (see getOpenParensAt).
+ */
+interface ParenIndex {
+  starts: number[];          // Start of each token, for binary search
+  open: Int32Array;          // open[i]: the innermost paren still open after token i, or -1
+  parens: Array<{ open: number; close: number | null; parent: number }>; // Offsets of '(' and its ')'; parent paren or -1
+}
+
+interface CacheEntry {
+  document: ParsedDocument | null;
+  edit: TextEdit | null;  // Changes since `document`, merged into one region
+  reparseAll: boolean;    // True if the changes cannot be described by `edit` (e.g. setValue)
+  symbols: SymbolTable | null;
+  types: SymbolTypes | null;  // For the document and `catalog`
+  calls: CallIndex | null;
+  parens: ParenIndex | null;
+  catalog: CustomFunction[] | null;
+  subscriptions: monaco.IDisposable[];
+}
+
+/**
+ * Parses each model once per version and shares the result: FunctionCallParser and the Monaco providers
+ * query this service instead of parsing the text themselves (validation parses in its worker).
+ *
+ * The service listens to the model's change events; on the next query only the lines around the
+ * changes are lexed again and only the top-level statements they touch are parsed again
+ * (ScribanAstParser.reparse). Results are kept per model until it is disposed.
+ * Still linear in the text on every version: reading it (`getValue`), moving the tokens and statements
+ * after the edit, and the symbol table, types and lookups by position (calls, parentheses), which are
+ * built again on first use. See SCRIBAN_INTELLISENSE_SPEC.md for measurements.
+ */
+export class ScribanParseService {
+  private static entries = new WeakMap<monaco.editor.ITextModel, CacheEntry>();
+
+  /**
+   * The parse of the model's current version.
+   */
+  static get(model: monaco.editor.ITextModel): ParsedDocument {
+    const entry = this.getEntry(model);
+    const versionId = model.getVersionId();
+    const mode = getScribanMode(model);
+    const previous = entry.document;
+    if (previous && previous.versionId === versionId && previous.mode === mode) {
+      return previous;
+    }
+
+    const text = model.getValue();
+    const parse = previous && previous.mode === mode && entry.edit && !entry.reparseAll
+      ? ScribanAstParser.reparse(previous.parse, text, entry.edit, mode)
+      : ScribanAstParser.parse(text, mode);
+
+    entry.document = { versionId, mode, text, codeText: this.maskTemplateText(text, parse, mode), parse };
+    entry.edit = null;
+    entry.reparseAll = false;
+    entry.symbols = null;
+    entry.types = null;
+    entry.calls = null;
+    entry.parens = null;
+    return entry.document;
+  }
+
+  /**
+   * Text of the model with everything outside code blocks (template text, `{{`/`}}` delimiters,
+   * escape blocks) replaced by spaces. Line breaks are kept, so offsets and positions stay the same.
+   * In script mode this is the model's text.
+   */
+  static getCodeText(model: monaco.editor.ITextModel): string {
+    return this.get(model).codeText;
+  }
+
+  /**
+   * Whether a position is inside a code block (always true in script mode).
+   * Positions on the template text and on the delimiters are not.
+   */
+  static isCodePosition(model: monaco.editor.ITextModel, position: monaco.IPosition): boolean {
+    const { mode, parse } = this.get(model);
+    if (mode === 'script') return true;
+
+    const offset = model.getOffsetAt(position);
+    const token = parse.tokens[this.findLastStart(parse.tokens, token => token.range.start, offset - 1)];
+    if (token && token.type === 'newline' && token.value !== '\n' && offset < token.range.end) {
+      return false;
+    }
+    const text = parse.text[this.findLastStart(parse.text, range => range.start, offset)];
+    return !text || offset > text.end;
+  }
+
+  /**
+   * Tokens starting at or after `start` and before `end`. A string literal is one token,
+   * so punctuation inside quotes is not seen.
+   */
+  static getTokensBetween(model: monaco.editor.ITextModel, start: number, end: number): Token[] {
+    const { tokens } = this.get(model).parse;
+    const first = this.findLastStart(tokens, token => token.range.start, start - 1) + 1;
+    const found: Token[] = [];
+    for (let i = first; i < tokens.length && tokens[i].range.start < end; i++) {
+      found.push(tokens[i]);
+    }
+    return found;
+  }
+
+  /**
+   * Every call of the document, and every name alone as a statement (`copy`, a call without arguments),
+   * in source order with outer calls before the calls they contain.
+   */
+  static getCalls(model: monaco.editor.ITextModel): CallExpression[] {
+    return this.getCallIndex(model).calls;
+  }
+
+  /**
+   * Calls (see getCalls) that contain `offset`, or end before it with only spaces in between,
+   * outermost first.
+   */
+  static getCallsAt(model: monaco.editor.ITextModel, offset: number): CallExpression[] {
+    const { calls, reach } = this.getCallIndex(model);
+    const { codeText } = this.get(model);
+    const found: CallExpression[] = [];
+    for (let i = this.findLastStart(calls, call => call.range.start, offset); i >= 0 && reach[i] >= offset; i--) {
+      if (this.getEndWithSpaces(codeText, calls[i].range.end) >= offset) {
+        found.unshift(calls[i]);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Offsets of the '(' before `offset` that are not closed before it, outermost first.
+   * Parentheses inside string literals and comments are part of those tokens and not seen.
+   */
+  static getOpenParensAt(model: monaco.editor.ITextModel, offset: number): number[] {
+    const { starts, open, parens } = this.getParenIndex(model);
+    const openParens: number[] = [];
+    const last = this.findLastStart(starts, start => start, offset - 1);
+    for (let paren = last >= 0 ? open[last] : -1; paren !== -1; paren = parens[paren].parent) {
+      openParens.unshift(parens[paren].open);
+    }
+    return openParens;
+  }
+
+  /**
+   * Offset of the ')' that closes the '(' at `openOffset`, or null if it is not closed.
+   */
+  static getClosingParen(model: monaco.editor.ITextModel, openOffset: number): number | null {
+    const { starts, parens, open } = this.getParenIndex(model);
+    const index = this.findLastStart(starts, start => start, openOffset);
+    const paren = index >= 0 ? open[index] : -1;
+    return paren !== -1 && parens[paren].open === openOffset ? parens[paren].close : null;
+  }
+
+  /**
+   * Scopes and variables of the document (see ScribanSymbolTable), built on first use.
+   */
+  static getSymbols(model: monaco.editor.ITextModel): SymbolTable {
+    const document = this.get(model);
+    const entry = this.getEntry(model);
+    entry.symbols ??= ScribanSymbolTable.build(document.parse.ast);
+    return entry.symbols;
+  }
+
+  /**
+   * Variable types from the assignments in the symbol table (see SymbolTypes).
+   * Results are kept until the text or the function catalog changes.
+   */
+  static getTypes(model: monaco.editor.ITextModel): SymbolTypes {
+    const { text } = this.get(model);
+    const symbols = this.getSymbols(model);
+    const entry = this.getEntry(model);
+    const catalog = FunctionCatalog.getFunctions();
+    if (!entry.types || entry.catalog !== catalog) {
+      entry.types = new SymbolTypes(text, symbols);
+      entry.catalog = catalog;
+    }
+    return entry.types;
+  }
+
+  private static getCallIndex(model: monaco.editor.ITextModel): CallIndex {
+    const document = this.get(model);
+    const entry = this.getEntry(model);
+    if (!entry.calls) {
+      const calls: CallExpression[] = [];
+      walkAst(document.parse.ast, node => {
+        if (node.type === 'CallExpression') {
+          calls.push(node);
+        } else if (node.type === 'ExpressionStatement' && getQualifiedName(node.expression)) {
+          const callee = node.expression;
+          calls.push({ type: 'CallExpression', callee, args: [], openParen: null, closeParen: null, piped: false, range: callee.range });
+        }
+      });
+      // The walk visits a piped call's callee before its piped value, so sort by start (outer calls first)
+      calls.sort((a, b) => a.range.start - b.range.start || b.range.end - a.range.end);
+
+      const reach: number[] = [];
+      calls.forEach((call, i) => {
+        reach.push(Math.max(i > 0 ? reach[i - 1] : -1, this.getEndWithSpaces(document.codeText, call.range.end)));
+      });
+      entry.calls = { calls, reach };
+    }
+    return entry.calls;
+  }
+
+  private static getParenIndex(model: monaco.editor.ITextModel): ParenIndex {
+    const { tokens } = this.get(model).parse;
+    const entry = this.getEntry(model);
+    if (!entry.parens) {
+      const index: ParenIndex = { starts: [], open: new Int32Array(tokens.length), parens: [] };
+      let current = -1;
+      tokens.forEach((token, i) => {
+        index.starts.push(token.range.start);
+        if (token.type === 'punctuation' && token.value === '(') {
+          index.parens.push({ open: token.range.start, close: null, parent: current });
+          current = index.parens.length - 1;
+        } else if (token.type === 'punctuation' && token.value === ')' && current !== -1) {
+          index.parens[current].close = token.range.start;
+          current = index.parens[current].parent;
+        }
+        index.open[i] = current;
+      });
+      entry.parens = index;
+    }
+    return entry.parens;
+  }
+
+  /**
+   * End of a range followed by spaces and tabs, where a parenless call's next argument is typed.
+   */
+  private static getEndWithSpaces(codeText: string, end: number): number {
+    while (end < codeText.length && (codeText[end] === ' ' || codeText[end] === '\t')) end++;
+    return end;
+  }
+
+  /**
+   * Index of the last item starting at or before `offset` in items sorted by start, or -1.
+   */
+  private static findLastStart<T>(items: T[], getStart: (item: T) => number, offset: number): number {
+    let low = 0;
+    let high = items.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      if (getStart(items[middle]) <= offset) {
+        found = middle;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return found;
+  }
+
+  /**
+   * The codeText of a document (see getCodeText).
+   */
+  private static maskTemplateText(text: string, parse: ParseResult, mode: ScribanMode): string {
+    if (mode === 'script') return text;
+
+    const delimiters = parse.tokens.filter(token => token.type === 'newline' && token.value !== '\n').map(token => token.range);
+    const chars = text.split('');
+    for (const range of [...parse.text, ...delimiters]) {
+      for (let i = range.start; i < range.end; i++) {
+        if (chars[i] !== '\n') chars[i] = ' ';
+      }
+    }
+    return chars.join('');
+  }
+
+  private static getEntry(model: monaco.editor.ITextModel): CacheEntry {
+    let entry = this.entries.get(model);
+    if (!entry) {
+      const created: CacheEntry = {
+        document: null,
+        edit: null,
+        reparseAll: false,
+        symbols: null,
+        types: null,
+        calls: null,
+        parens: null,
+        catalog: null,
+        subscriptions: []
+      };
+      created.subscriptions = [
+        model.onDidChangeContent(event => this.recordChanges(created, event)),
+        model.onWillDispose(() => {
+          created.subscriptions.forEach(subscription => subscription.dispose());
+          this.entries.delete(model);
+        })
+      ];
+      this.entries.set(model, created);
+      entry = created;
+    }
+    return entry;
+  }
+
+  private static recordChanges(entry: CacheEntry, event: monaco.editor.IModelContentChangedEvent): void {
+    if (!entry.document || entry.reparseAll) return;
+    if (event.isFlush) {
+      entry.reparseAll = true;
+      return;
+    }
+    // Offsets of all changes refer to the text before the event; from the last one backwards they stay valid
+    const changes = [...event.changes].sort((a, b) => b.rangeOffset - a.rangeOffset);
+    for (const change of changes) {
+      entry.edit = this.mergeEdit(entry.edit, change.rangeOffset, change.rangeOffset + change.rangeLength, change.text.length);
+    }
+  }
+
+  /**
+   * Add a change (`start` to `end` of the current text replaced by `length` characters) to the edit
+   * since the parsed text, keeping one region that covers both.
+   */
+  private static mergeEdit(edit: TextEdit | null, start: number, end: number, length: number): TextEdit {
+    if (!edit) {
+      return { start, oldEnd: end, newEnd: start + length };
+    }
+    const delta = edit.newEnd - edit.oldEnd;
+    return {
+      start: Math.min(edit.start, start),
+      oldEnd: Math.max(edit.oldEnd, end - delta),
+      newEnd: Math.max(edit.newEnd, end) + length - (end - start)
+    };
+  }
+}
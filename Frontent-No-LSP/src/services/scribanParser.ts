@@ -1,67 +1,393 @@
-import { Diagnostic } from '../types';
+import { CustomFunction, Diagnostic, ScribanMode } from '../types';
+import { FunctionCatalog } from './functionCatalog';
+import { OverloadResolver, ResolvedOverload } from './overloadResolver';
+import { MatchedParameter, ParameterMatcher } from './parameterMatcher';
+import { SymbolTypes, TypeInference, VariableTypes } from './typeInference';
+import { ScribanAstParser } from './scribanAstParser';
+import { ScribanSymbolTable, SymbolTable } from './scribanSymbolTable';
+import {
+  AstNode,
+  CallExpression,
+  getChildren,
+  getQualifiedName,
+  LineIndex,
+  Script,
+  SourceRange,
+  walkAst
+} from './scribanAst';
+import {
+  ArgumentText,
+  ArgumentType,
+  getStringLiteralValue,
+  isArgumentTypeCompatible
+} from '../utils/argumentUtils';
+import { checkConstraints } from '../utils/constraintUtils';
+import { getRequiredParameterCount } from '../utils/signatureUtils';
+import { MARKER_TOKEN } from '../config';
 
+// Scriban builtins that are called like functions but are not in the catalog
+const BUILTIN_FUNCTIONS = ['include', 'raw', 'default'];
+
+// Scriban builtin objects and values, available without being assigned (`for`/`while`/`tablerow` inside loops)
+const BUILTIN_OBJECTS = ['array', 'date', 'html', 'math', 'object', 'regex', 'string', 'timespan', 'empty', 'this', 'for', 'while', 'tablerow'];
+
+type DiagnosticFactory = (range: SourceRange, message: string, severity: Diagnostic['severity']) => Diagnostic;
+
+/**
+ * A catalog function call, split into arguments and matched to an overload.
+ * Argument offsets are document offsets; `parameters` have the ranges pickers use.
+ */
+interface ResolvedCall {
+  func: CustomFunction;
+  call: CallExpression;
+  args: ArgumentText[];
+  argumentTypes: ArgumentType[];
+  resolved: ResolvedOverload;
+  parameters: MatchedParameter[];
+}
+
+/**
+ * Validates a script: syntax and block structure errors from ScribanAstParser,
+ * `break`/`continue`/`ret` outside of their block, variable warnings from ScribanSymbolTable, then checks on every call
+ * to a catalog function (unknown/deprecated functions, argument count, types, enum values, constraints).
+ */
 export class ScribanParser {
-  static validate(script: string): Diagnostic[] {
-    const diagnostics: Diagnostic[] = [];
-    const lines = script.split('\n');
-    const validFunctions = ['copy', 'move', 'delete', 'read', 'write', 'for', 'if', 'end', 'while', 'break', 'continue', 'ret', 'func', 'import', 'include', 'with', 'tablerow', 'raw', 'wrap', 'case', 'when', 'default'];
+  /**
+   * In template mode only the code blocks are checked; the text around them is not Scriban code.
+   */
+  static validate(script: string, mode: ScribanMode = 'script'): Diagnostic[] {
+    const { ast, errors, text } = ScribanAstParser.parse(script, mode);
+    const lineIndex = new LineIndex(script);
+    const toDiagnostic: DiagnosticFactory = (range, message, severity) => {
+      const start = lineIndex.positionAt(range.start);
+      const end = lineIndex.positionAt(Math.max(range.end, range.start + 1));
+      return { startLine: start.line, startCol: start.column, endLine: end.line, endCol: end.column, message, severity };
+    };
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const lineNum = i + 1;
+    const diagnostics: Diagnostic[] = errors.map(error => {
+      const diagnostic = toDiagnostic(error.range, error.message, error.severity);
+      if (error.related) {
+        const { startLine, startCol, endLine, endCol } = toDiagnostic(error.related.range, error.related.message, error.severity);
+        diagnostic.relatedInformation = [{ startLine, startCol, endLine, endCol, message: error.related.message }];
+      }
+      return diagnostic;
+    });
+    diagnostics.push(...this.validateControlFlow(ast, toDiagnostic));
+    const symbols = ScribanSymbolTable.build(ast);
+    diagnostics.push(...this.validateVariables(symbols, toDiagnostic));
 
-      const markerMatch = line.match(/__PARAM__MARKER__/);
-      if (markerMatch) {
-        diagnostics.push({
-          startLine: lineNum,
-          startCol: markerMatch.index! + 1,
-          endLine: lineNum,
-          endCol: markerMatch.index! + markerMatch[0].length + 1,
-          message: 'Parameter marker detected - please select a value',
-          severity: 'warning'
-        });
+    let markerIndex = script.indexOf(MARKER_TOKEN);
+    while (markerIndex !== -1) {
+      const start = markerIndex;
+      if (!text.some(range => range.start <= start && start < range.end)) {
+        diagnostics.push(toDiagnostic(
+          { start, end: start + MARKER_TOKEN.length },
+          'Parameter marker detected - please select a value',
+          'warning'
+        ));
       }
+      markerIndex = script.indexOf(MARKER_TOKEN, markerIndex + MARKER_TOKEN.length);
+    }
 
-      const functionMatch = line.match(/([a-zA-Z_]\w*)\s*\(/);
-      if (functionMatch) {
-        const funcName = functionMatch[1];
-        if (!validFunctions.includes(funcName) && !funcName.startsWith('__')) {
-          diagnostics.push({
-            startLine: lineNum,
-            startCol: functionMatch.index! + 1,
-            endLine: lineNum,
-            endCol: functionMatch.index! + funcName.length + 1,
-            message: `Unknown function "${funcName}"`,
-            severity: 'warning'
-          });
-        }
+    // Functions defined in the script (`func name ... end`) are known everywhere in it
+    const scriptFunctions = new Set<string>();
+    walkAst(ast, node => {
+      if (node.type === 'FuncStatement' && node.name) scriptFunctions.add(node.name.name);
+    });
+
+    // Arguments are typed through the variables they read, so loop variables and parameters
+    // hide the types of outer variables of the same name
+    const types = new SymbolTypes(script, symbols);
+    walkAst(ast, node => {
+      if (node.type === 'CallExpression') {
+        diagnostics.push(...this.validateCall(script, node, types.getVariablesIn(node.range), scriptFunctions, toDiagnostic));
       }
+    });
 
-      const unclosedString = line.match(/["'][^"']*$/);
-      if (unclosedString) {
-        diagnostics.push({
-          startLine: lineNum,
-          startCol: unclosedString.index! + 1,
-          endLine: lineNum,
-          endCol: line.length + 1,
-          message: 'Unclosed string literal',
-          severity: 'error'
-        });
+    return diagnostics.sort((a, b) => a.startLine - b.startLine || a.startCol - b.startCol);
+  }
+
+  /**
+   * Report `break`/`continue` outside of a loop and `ret` outside of a function.
+   * A `func` body starts a new context: a loop around the function does not count.
+   */
+  private static validateControlFlow(ast: Script, toDiagnostic: DiagnosticFactory): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const visit = (node: AstNode, inLoop: boolean, inFunc: boolean) => {
+      if ((node.type === 'BreakStatement' || node.type === 'ContinueStatement') && !inLoop) {
+        const keyword = node.type === 'BreakStatement' ? 'break' : 'continue';
+        diagnostics.push(toDiagnostic(node.range, `"${keyword}" outside of a loop`, 'error'));
+      } else if (node.type === 'ReturnStatement' && !inFunc) {
+        diagnostics.push(toDiagnostic(node.range, '"ret" outside of a function', 'error'));
       }
 
-      const unclosedComment = line.match(/\/\*[^*]*$/);
-      if (unclosedComment) {
+      const isLoop = node.type === 'ForStatement' || node.type === 'WhileStatement';
+      const isFunc = node.type === 'FuncStatement';
+      getChildren(node).forEach(child => visit(child, isFunc ? false : inLoop || isLoop, inFunc || isFunc));
+    };
+    visit(ast, false, false);
+    return diagnostics;
+  }
+
+  /**
+   * Warn about variables read before they are assigned, variables assigned but never read,
+   * and loop variables that hide an outer variable. Names of functions, objects and builtins are not variables.
+   * A name the script never assigns may be a global of the host (Scriban reads it as null if not), so it is not reported.
+   */
+  private static validateVariables(table: SymbolTable, toDiagnostic: DiagnosticFactory): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const withRelated = (diagnostic: Diagnostic, range: SourceRange, message: string): Diagnostic => {
+      const { startLine, startCol, endLine, endCol } = toDiagnostic(range, message, diagnostic.severity);
+      return { ...diagnostic, relatedInformation: [{ startLine, startCol, endLine, endCol, message }] };
+    };
+
+    for (const ref of table.references) {
+      if (!ref.assignedLater || this.isPredefinedName(ref.name)) continue;
+      const diagnostic = toDiagnostic(ref.range, `"${ref.name}" is used before it is assigned`, 'warning');
+      diagnostics.push(withRelated(diagnostic, ref.assignedLater.declaration, `"${ref.name}" is assigned here`));
+    }
+
+    for (const symbol of table.symbols) {
+      if (symbol.kind === 'variable' && symbol.reads.length === 0) {
         diagnostics.push({
-          startLine: lineNum,
-          startCol: unclosedComment.index! + 1,
-          endLine: lineNum,
-          endCol: line.length + 1,
-          message: 'Unclosed block comment',
-          severity: 'warning'
+          ...toDiagnostic(symbol.declaration, `"${symbol.name}" is assigned but never used`, 'warning'),
+          tags: ['unnecessary']
         });
+      } else if (symbol.shadows) {
+        const diagnostic = toDiagnostic(symbol.declaration, `Loop variable "${symbol.name}" shadows an outer variable`, 'warning');
+        diagnostics.push(withRelated(diagnostic, symbol.shadows.declaration, `Outer "${symbol.name}"`));
       }
     }
 
     return diagnostics;
   }
+
+  /**
+   * Names that exist without being assigned: catalog functions and namespaces, builtins, and markers.
+   */
+  private static isPredefinedName(name: string): boolean {
+    return Boolean(FunctionCatalog.findFunction(name) || FunctionCatalog.findNamespace(name)) ||
+      BUILTIN_OBJECTS.includes(name) || BUILTIN_FUNCTIONS.includes(name) || name.startsWith('__');
+  }
+
+  private static validateCall(
+    script: string,
+    call: CallExpression,
+    variables: VariableTypes,
+    scriptFunctions: Set<string>,
+    toDiagnostic: DiagnosticFactory
+  ): Diagnostic[] {
+    const funcName = getQualifiedName(call.callee);
+    if (!funcName) return [];
+
+    const nameRange = call.callee.range;
+    const memberMessage = funcName.includes('.') ? this.validateMemberCall(funcName) : null;
+    if (memberMessage) {
+      return [toDiagnostic(nameRange, memberMessage, 'warning')];
+    }
+    if (FunctionCatalog.findNamespace(funcName)) {
+      return [toDiagnostic(nameRange, `"${funcName}" is an object, not a function`, 'warning')];
+    }
+
+    const func = FunctionCatalog.findFunction(funcName);
+    if (!func) {
+      const isKnown = funcName.includes('.') || scriptFunctions.has(funcName) ||
+        BUILTIN_FUNCTIONS.includes(funcName) || funcName.startsWith('__');
+      return isKnown ? [] : [toDiagnostic(nameRange, `Unknown function "${funcName}"`, 'warning')];
+    }
+
+    const diagnostics: Diagnostic[] = [];
+    if (func.deprecated) {
+      diagnostics.push({
+        ...toDiagnostic(nameRange, `"${funcName}" is deprecated: ${func.deprecated.message}`, 'warning'),
+        code: 'deprecated',
+        tags: ['deprecated']
+      });
+    }
+
+    const resolvedCall = this.resolveCall(script, func, call, variables);
+    const countDiagnostic = this.validateArgumentCount(resolvedCall, toDiagnostic);
+    if (countDiagnostic) {
+      diagnostics.push(countDiagnostic);
+    }
+    diagnostics.push(...this.validateArgumentTypes(resolvedCall, toDiagnostic));
+    diagnostics.push(...this.validateEnumArguments(resolvedCall, toDiagnostic));
+    diagnostics.push(...this.validateArgumentConstraints(resolvedCall, toDiagnostic));
+    return diagnostics;
+  }
+
+  /**
+   * Take the arguments of a call (the piped value first) and resolve its overload.
+   * Argument types include the inferred types of variables assigned by earlier statements.
+   */
+  private static resolveCall(
+    script: string,
+    func: CustomFunction,
+    call: CallExpression,
+    variables: VariableTypes
+  ): ResolvedCall {
+    const args: ArgumentText[] = call.args.map(arg => ({
+      text: script.substring(arg.range.start, arg.range.end),
+      start: arg.range.start,
+      end: arg.range.end
+    }));
+    const argumentTypes = args.map(a => TypeInference.inferExpressionType(a.text, variables));
+    const resolved = OverloadResolver.resolve(func, argumentTypes);
+    const listStart = call.openParen?.end ?? call.callee.range.end;
+    return {
+      func,
+      call,
+      args,
+      argumentTypes,
+      resolved,
+      parameters: ParameterMatcher.match(script, listStart, args, resolved.overload.parameters)
+    };
+  }
+
+  /**
+   * Range of a written argument for diagnostics: the parameter range used by the pickers
+   * (see ParameterMatcher), widened to the opening quote of a string.
+   */
+  private static getArgumentRange(parameter: MatchedParameter): SourceRange {
+    return { start: parameter.kind === 'string' ? parameter.start - 1 : parameter.start, end: parameter.end };
+  }
+
+  /**
+   * Written arguments with their parameter and inferred type; arguments beyond the signature
+   * (without a rest parameter) have no parameter and are left out.
+   */
+  private static getWrittenParameters(call: ResolvedCall): Array<{ parameter: MatchedParameter; arg: ArgumentText; type: ArgumentType }> {
+    return call.parameters
+      .filter(parameter => parameter.kind !== 'empty')
+      .map(parameter => ({ parameter, arg: call.args[parameter.index], type: call.argumentTypes[parameter.index] }));
+  }
+
+  /**
+   * Report arguments beyond what the best-matching overload accepts (on the extra arguments),
+   * and missing required arguments of a closed or parenless call (where the first missing one goes).
+   * A piped value counts as the first argument. Optional parameters may always be left out.
+   */
+  private static validateArgumentCount(
+    call: ResolvedCall,
+    toDiagnostic: DiagnosticFactory
+  ): Diagnostic | null {
+    const { func, args, resolved } = call;
+
+    if (resolved.fitsCount) {
+      const requiredCount = getRequiredParameterCount(resolved.overload.parameters);
+      // Empty arguments (`copy(, "b/")`) are already syntax errors; only arguments not written are reported here
+      const missing = call.parameters.filter(p => p.index < requiredCount && p.index >= args.length);
+      const isUnclosed = call.call.openParen !== null && call.call.closeParen === null;
+      if (isUnclosed || missing.length === 0) {
+        return null;
+      }
+
+      const names = missing.map(p => `"${p.parameter.name}"`);
+      return toDiagnostic(
+        missing[0],
+        `Missing required argument${names.length > 1 ? 's' : ''} ${names.join(', ')} for "${func.name}"`,
+        'error'
+      );
+    }
+
+    const maxCount = resolved.overload.parameters.length;
+    const firstExtra = args[maxCount];
+    const lastExtra = args[args.length - 1];
+    return toDiagnostic(
+      { start: firstExtra.start, end: lastExtra.end },
+      `Too many arguments for "${func.name}": expected at most ${OverloadResolver.getMaxParameterCount(func)}, got ${args.length}`,
+      'error'
+    );
+  }
+
+  /**
+   * Report arguments whose literal or inferred type does not fit the parameter,
+   * e.g. `copy(42, "x/")`, `copy("a", "b/", "yes")` or passing a variable holding a number to a path parameter.
+   * Arguments of unknown type are not reported.
+   */
+  private static validateArgumentTypes(
+    call: ResolvedCall,
+    toDiagnostic: DiagnosticFactory
+  ): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    this.getWrittenParameters(call).forEach(({ parameter, type }) => {
+      const { name, type: expected } = parameter.parameter;
+      if (isArgumentTypeCompatible(type, expected)) return;
+
+      diagnostics.push(toDiagnostic(
+        this.getArgumentRange(parameter),
+        type === 'void'
+          ? `Argument "${name}" of "${call.func.name}" expects ${expected}, but the expression returns no value`
+          : `Argument "${name}" of "${call.func.name}" expects ${expected}, got ${type}`,
+        'error'
+      ));
+    });
+
+    return diagnostics;
+  }
+
+  /**
+   * Report string literals passed to enum parameters that are not one of the parameter's options.
+   * Variables and other expressions cannot be checked and are skipped.
+   */
+  private static validateEnumArguments(
+    call: ResolvedCall,
+    toDiagnostic: DiagnosticFactory
+  ): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    this.getWrittenParameters(call).forEach(({ parameter, arg }) => {
+      const param = parameter.parameter;
+      const value = getStringLiteralValue(arg.text);
+      if (param.type !== 'enum' || !param.options || value === null) return;
+      if (param.options.some(option => option.value === value)) return;
+
+      const expected = param.options.map(option => `"${option.value}"`).join(', ');
+      diagnostics.push(toDiagnostic(
+        this.getArgumentRange(parameter),
+        `Invalid value "${value}" for "${param.name}": expected one of ${expected}`,
+        'error'
+      ));
+    });
+
+    return diagnostics;
+  }
+
+  /**
+   * Report literal arguments that violate the parameter's value constraints (min/max/integer,
+   * pattern/maxLength/allowedValues), on the argument's range.
+   */
+  private static validateArgumentConstraints(
+    call: ResolvedCall,
+    toDiagnostic: DiagnosticFactory
+  ): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    this.getWrittenParameters(call).forEach(({ parameter, arg }) => {
+      const message = checkConstraints(parameter.parameter, arg.text);
+      if (message) {
+        diagnostics.push(toDiagnostic(this.getArgumentRange(parameter), message, 'error'));
+      }
+    });
+
+    return diagnostics;
+  }
+
+  /**
+   * Check a qualified call such as `os.path_exists`.
+   * Only namespaces from the catalog are checked; other objects (variables, Scriban builtins) are not known here.
+   * Returns the diagnostic message, or null if the call is fine or cannot be checked.
+   */
+  private static validateMemberCall(qualifiedName: string): string | null {
+    const separator = qualifiedName.lastIndexOf('.');
+    const namespaceName = qualifiedName.substring(0, separator);
+    const memberName = qualifiedName.substring(separator + 1);
+
+    if (!FunctionCatalog.findNamespace(namespaceName) || FunctionCatalog.findFunction(qualifiedName)) {
+      return null;
+    }
+
+    return `Unknown member "${memberName}" of "${namespaceName}"`;
+  }
 }
@@ -0,0 +1,262 @@
+import {
+  AstNode,
+  getChildren,
+  Identifier,
+  Script,
+  SourceRange
+} from './scribanAst';
+
+/**
+ * Variables of a script by scope, built from the AST by ScribanSymbolTable.build.
+ *
+ * Scopes follow Scriban: a plain variable is global wherever it is assigned, a `$name` variable is local
+ * to the function it is assigned in, a `for`/`tablerow` variable exists in the loop's body only,
+ * and function parameters in the function's body.
+ */
+
+export type ScopeKind = 'global' | 'loop' | 'function';
+
+export type VariableKind = 'variable' | 'loop' | 'parameter' | 'function';
+
+export interface Scope {
+  kind: ScopeKind;
+  range: SourceRange;
+  parent: Scope | null;
+  symbols: Map<string, VariableSymbol>;
+}
+
+export interface VariableSymbol {
+  name: string;
+  kind: VariableKind;
+  scope: Scope;
+  declaration: SourceRange;        // First assignment target, loop variable, parameter or function name
+  visibleFrom: number;             // Offset from which reads see it: after the assigning statement
+  loop: SourceRange | null;        // Outermost loop around the first assignment: reads anywhere in it see it too
+  reads: SourceRange[];
+  assignments: VariableAssignment[]; // Plain `name = value` assignments, in source order
+  shadows: VariableSymbol | null;  // For a loop variable: the outer variable of the same name it hides
+}
+
+export interface VariableAssignment {
+  target: SourceRange;
+  value: SourceRange;
+  end: number;  // End of the assignment statement, where later reads see the value
+}
+
+export interface VariableReference {
+  name: string;
+  range: SourceRange;
+  scope: Scope;
+  symbol: VariableSymbol | null;        // null if no variable of that name is visible at the reference
+  assignedLater: VariableSymbol | null; // For an unresolved reference: the variable assigned after it
+}
+
+export interface SymbolTable {
+  scopes: Scope[];             // The global scope first, then in source order
+  symbols: VariableSymbol[];
+  references: VariableReference[];
+}
+
+// `$0`, `$1`... and `$` are the arguments of the function being called
+const ARGUMENT_PATTERN = /^\$\d*$/;
+
+export class ScribanSymbolTable {
+  /**
+   * Collect the variables of a script and resolve every read of a variable.
+   * Callees are not references (calls are checked against the function catalog), and neither are
+   * names inside a `with` block, which may be members of its object.
+   */
+  static build(ast: Script): SymbolTable {
+    const global: Scope = { kind: 'global', range: ast.range, parent: null, symbols: new Map() };
+    const table: SymbolTable = { scopes: [global], symbols: [], references: [] };
+
+    const declare = (
+      scope: Scope,
+      name: Identifier,
+      kind: VariableKind,
+      visibleFrom: number,
+      loop: SourceRange | null = null
+    ): VariableSymbol => {
+      const symbol: VariableSymbol = {
+        name: name.name, kind, scope, declaration: name.range, visibleFrom, loop, reads: [], assignments: [], shadows: null
+      };
+      scope.symbols.set(name.name, symbol);
+      table.symbols.push(symbol);
+      return symbol;
+    };
+    const openScope = (kind: ScopeKind, range: SourceRange, parent: Scope): Scope => {
+      const scope: Scope = { kind, range, parent, symbols: new Map() };
+      table.scopes.push(scope);
+      return scope;
+    };
+    const reference = (name: Identifier, scope: Scope) => {
+      if (ARGUMENT_PATTERN.test(name.name)) return;
+      table.references.push({ name: name.name, range: name.range, scope, symbol: null, assignedLater: null });
+    };
+
+    // An assignment writes a visible loop variable or parameter, otherwise the variable of its scope
+    const assign = (target: Identifier, statementEnd: number, scope: Scope, loop: SourceRange | null): VariableSymbol => {
+      const visible = this.resolve(scope, target.name, target.range.start);
+      if (visible) return visible;
+      const owner = target.name.startsWith('$') ? this.getFunctionScope(scope) ?? global : global;
+      return owner.symbols.get(target.name) ?? declare(owner, target, 'variable', statementEnd, loop);
+    };
+
+    // `loop` is the outermost loop around the node in the current function: its body may run again
+    const visit = (node: AstNode, scope: Scope, inWith: boolean, loop: SourceRange | null): void => {
+      switch (node.type) {
+        case 'Identifier':
+          if (!inWith) reference(node, scope);
+          return;
+        case 'AssignmentStatement':
+          visit(node.value, scope, inWith, loop);
+          if (node.target.type !== 'Identifier') {
+            visit(node.target, scope, inWith, loop);
+          } else if (!inWith) {
+            // `x += 1` reads `x` as well
+            if (node.operator !== '=') reference(node.target, scope);
+            const symbol = assign(node.target, node.range.end, scope, loop);
+            if (node.operator === '=') {
+              symbol.assignments.push({ target: node.target.range, value: node.value.range, end: node.range.end });
+            }
+          }
+          return;
+        case 'CaptureStatement':
+          if (node.variable?.type === 'Identifier' && !inWith) {
+            assign(node.variable, node.range.end, scope, loop);
+          } else if (node.variable) {
+            visit(node.variable, scope, inWith, loop);
+          }
+          node.body.forEach(statement => visit(statement, scope, inWith, loop));
+          return;
+        case 'ForStatement': {
+          if (node.iterable) visit(node.iterable, scope, inWith, loop);
+          // The loop's scope starts after `in collection`
+          const bodyStart = node.iterable?.range.end ?? node.variable?.range.end ?? node.keywordRange.end;
+          const loopScope = openScope('loop', { start: bodyStart, end: node.range.end }, scope);
+          if (node.variable) {
+            const shadows = this.resolve(scope, node.variable.name, node.keywordRange.start);
+            declare(loopScope, node.variable, 'loop', node.variable.range.end).shadows = shadows;
+          }
+          node.body.forEach(statement => visit(statement, loopScope, inWith, loop ?? node.range));
+          return;
+        }
+        case 'FuncStatement': {
+          if (node.name) {
+            // Visible in its own body, so it can call itself
+            declare(global, node.name, 'function', node.range.start);
+          }
+          const func = openScope('function', node.range, scope);
+          node.parameters.forEach(parameter => declare(func, parameter, 'parameter', parameter.range.end));
+          node.body.forEach(statement => visit(statement, func, inWith, null));
+          return;
+        }
+        case 'WhileStatement':
+          getChildren(node).forEach(child => visit(child, scope, inWith, loop ?? node.range));
+          return;
+        case 'WithStatement':
+          if (node.object) visit(node.object, scope, inWith, loop);
+          node.body.forEach(statement => visit(statement, scope, true, loop));
+          return;
+        case 'ReadonlyStatement':
+          return;
+        case 'CallExpression':
+          if (node.callee.type !== 'Identifier') visit(node.callee, scope, inWith, loop);
+          node.args.forEach(arg => visit(arg, scope, inWith, loop));
+          return;
+        case 'MemberExpression':
+          visit(node.object, scope, inWith, loop);
+          return;
+        case 'ObjectProperty':
+          visit(node.value, scope, inWith, loop);
+          return;
+        default:
+          getChildren(node).forEach(child => visit(child, scope, inWith, loop));
+      }
+    };
+    visit(ast, global, false, null);
+
+    // Resolved once every variable is known: function bodies see globals assigned after them
+    for (const ref of table.references) {
+      ref.symbol = this.resolve(ref.scope, ref.name, ref.range.start);
+      ref.symbol?.reads.push(ref.range);
+      if (!ref.symbol) {
+        ref.assignedLater = this.resolve(ref.scope, ref.name, ref.range.start, true);
+      }
+    }
+
+    return table;
+  }
+
+  /**
+   * Variables visible at `offset`, innermost first; a variable hidden by an inner one of the same name is left out.
+   */
+  static getVisibleSymbols(table: SymbolTable, offset: number): VariableSymbol[] {
+    const visible = new Map<string, VariableSymbol>();
+    const innermost = this.getScopeAt(table, offset);
+    for (let scope: Scope | null = innermost; scope; scope = scope.parent) {
+      scope.symbols.forEach((symbol, name) => {
+        if (!visible.has(name) && this.isVisible(symbol, innermost, offset)) {
+          visible.set(name, symbol);
+        }
+      });
+    }
+    return [...visible.values()];
+  }
+
+  /**
+   * The variable a read of `name` at `offset` refers to, or null if none is visible there.
+   */
+  static lookup(table: SymbolTable, name: string, offset: number): VariableSymbol | null {
+    return this.resolve(this.getScopeAt(table, offset), name, offset);
+  }
+
+  /**
+   * The variable read, assigned or declared at `offset`, or null if there is none.
+   */
+  static getSymbolAt(table: SymbolTable, offset: number): VariableSymbol | null {
+    const contains = (range: SourceRange) => range.start <= offset && offset <= range.end;
+    const read = table.references.find(ref => contains(ref.range));
+    if (read) return read.symbol;
+    return table.symbols.find(symbol =>
+      contains(symbol.declaration) || symbol.assignments.some(assignment => contains(assignment.target))
+    ) ?? null;
+  }
+
+  /**
+   * Innermost scope containing `offset`.
+   */
+  static getScopeAt(table: SymbolTable, offset: number): Scope {
+    let innermost = table.scopes[0];
+    for (const scope of table.scopes) {
+      // Scopes are in source order, so a later scope containing the offset is nested in the earlier ones
+      if (scope.range.start <= offset && offset <= scope.range.end) innermost = scope;
+    }
+    return innermost;
+  }
+
+  private static resolve(scope: Scope, name: string, offset: number, ignoreOrder = false): VariableSymbol | null {
+    for (let current: Scope | null = scope; current; current = current.parent) {
+      const symbol = current.symbols.get(name);
+      if (symbol && (ignoreOrder || this.isVisible(symbol, scope, offset))) return symbol;
+    }
+    return null;
+  }
+
+  /**
+   * A function body runs when the function is called, so it sees every global variable;
+   * a loop body may run again, so reads anywhere in the loop see the variables assigned in it.
+   */
+  private static isVisible(symbol: VariableSymbol, from: Scope, offset: number): boolean {
+    if (symbol.scope.kind === 'global' && this.getFunctionScope(from)) return true;
+    if (symbol.loop && symbol.loop.start <= offset && offset <= symbol.loop.end) return true;
+    return symbol.visibleFrom <= offset;
+  }
+
+  private static getFunctionScope(scope: Scope): Scope | null {
+    for (let current: Scope | null = scope; current; current = current.parent) {
+      if (current.kind === 'function') return current;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,117 @@
+import { FunctionCatalog } from './functionCatalog';
+import { LineIndex, SourceRange } from './scribanAst';
+import { SymbolTable, VariableAssignment, VariableReference, VariableSymbol } from './scribanSymbolTable';
+import { ArgumentType, classifyArgument, inferArgumentType, splitConcatenation } from '../utils/argumentUtils';
+
+export interface InferredVariable {
+  name: string;
+  type: ArgumentType;
+  line: number; // 1-based line of the assignment the type comes from
+}
+
+export type VariableTypes = Map<string, InferredVariable>;
+
+/**
+ * Small type inference over expressions (`read("docs/api.md")`, `"a" + name`).
+ * Works on the expression's text; the types of the variables it reads come from SymbolTypes.
+ */
+export class TypeInference {
+  /**
+   * Infer the type of an expression: a literal, a known variable, a call to a catalog function,
+   * a parenthesized expression, an array literal or a `+` concatenation
+   * (a string if any operand is a string or path, a number if all operands are numbers).
+   */
+  static inferExpressionType(expression: string, variables: VariableTypes): ArgumentType {
+    const trimmed = expression.trim();
+
+    switch (classifyArgument(trimmed)) {
+      case 'string':
+      case 'interpolated':
+      case 'number':
+      case 'boolean':
+        return inferArgumentType(trimmed);
+      case 'variable':
+        return variables.get(trimmed)?.type ?? 'unknown';
+      case 'call':
+        return FunctionCatalog.findFunction(trimmed.substring(0, trimmed.indexOf('(')).trim())?.returnType ?? 'unknown';
+      case 'parenthesized':
+        return this.inferExpressionType(trimmed.slice(1, -1), variables);
+      case 'array':
+        return 'array';
+      case 'concatenation': {
+        const operandTypes = splitConcatenation(trimmed)!.map(operand => this.inferExpressionType(operand.text, variables));
+        if (operandTypes.some(type => type === 'string' || type === 'path')) return 'string';
+        if (operandTypes.every(type => type === 'number')) return 'number';
+        return 'unknown';
+      }
+      default:
+        return 'unknown';
+    }
+  }
+}
+
+/**
+ * Types of a script's variables from the assignments in its symbol table (see ScribanSymbolTable),
+ * so a loop variable or a `$local` never takes the type of an outer variable of the same name.
+ * Every assignment is typed once, in source order; a read sees the last assignment before it.
+ */
+export class SymbolTypes {
+  private readonly reads: VariableReference[]; // By offset
+  private readonly types = new Map<VariableAssignment, InferredVariable>();
+
+  constructor(script: string, table: SymbolTable) {
+    const lineIndex = new LineIndex(script);
+    this.reads = [...table.references].sort((a, b) => a.range.start - b.range.start);
+
+    const assignments = table.symbols
+      .flatMap(symbol => symbol.assignments.map(assignment => ({ symbol, assignment })))
+      .sort((a, b) => a.assignment.end - b.assignment.end);
+    for (const { symbol, assignment } of assignments) {
+      const { value } = assignment;
+      this.types.set(assignment, {
+        name: symbol.name,
+        type: TypeInference.inferExpressionType(script.substring(value.start, value.end), this.getVariablesIn(value)),
+        line: lineIndex.positionAt(assignment.target.start).line
+      });
+    }
+  }
+
+  /**
+   * Type of a variable from its last assignment that ends at or before `offset`.
+   */
+  getType(symbol: VariableSymbol, offset: number): InferredVariable | undefined {
+    for (let i = symbol.assignments.length - 1; i >= 0; i--) {
+      if (symbol.assignments[i].end <= offset) return this.types.get(symbol.assignments[i]);
+    }
+    return undefined;
+  }
+
+  /**
+   * Type of a variable as seen at `offset`; on the target of an assignment, the type it assigns.
+   */
+  getTypeAt(symbol: VariableSymbol, offset: number): InferredVariable | undefined {
+    const assignment = symbol.assignments.find(({ target }) => target.start <= offset && offset <= target.end);
+    return this.getType(symbol, assignment ? assignment.end : offset);
+  }
+
+  /**
+   * Types of the variables read in a range (e.g. a call's arguments), by name as inferExpressionType takes them.
+   */
+  getVariablesIn(range: SourceRange): VariableTypes {
+    const variables: VariableTypes = new Map();
+    let low = 0;
+    let high = this.reads.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.reads[middle].range.start < range.start) low = middle + 1;
+      else high = middle;
+    }
+
+    for (let i = low; i < this.reads.length && this.reads[i].range.start < range.end; i++) {
+      const { name, symbol, range: read } = this.reads[i];
+      const variable = symbol ? this.getType(symbol, read.start) : undefined;
+      if (variable) variables.set(name, variable);
+    }
+    return variables;
+  }
+}
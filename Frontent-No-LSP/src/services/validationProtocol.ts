@@ -0,0 +1,43 @@
+import { CustomFunction, CustomNamespace, Diagnostic, ScribanMode } from '../types';
+
+/**
+ * Messages between ValidationWorkerClient (UI thread) and the validation worker (validationWorker.ts).
+ * Requests are answered by `id`; a cancelled request is not answered.
+ */
+
+export interface ValidateRequest {
+  type: 'validate';
+  id: number;
+  script: string;
+  mode: ScribanMode;
+}
+
+export interface CancelRequest {
+  type: 'cancel';
+  id: number; // The validate request to drop if it has not started yet
+}
+
+/**
+ * The worker has its own FunctionCatalog; it is replaced before the first validation and after every change.
+ */
+export interface CatalogUpdate {
+  type: 'catalog';
+  functions: CustomFunction[];
+  namespaces: CustomNamespace[];
+}
+
+export type ValidationRequest = ValidateRequest | CancelRequest | CatalogUpdate;
+
+export interface ValidationResult {
+  type: 'result';
+  id: number;
+  diagnostics: Diagnostic[];
+}
+
+export interface ValidationFailure {
+  type: 'error';
+  id: number;
+  message: string;
+}
+
+export type ValidationResponse = ValidationResult | ValidationFailure;
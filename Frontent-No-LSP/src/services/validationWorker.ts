@@ -0,0 +1,43 @@
+import { FunctionCatalog } from './functionCatalog';
+import { ScribanParser } from './scribanParser';
+import { ValidateRequest, ValidationRequest, ValidationResponse } from './validationProtocol';
+
+/**
+ * Worker entry: parses and validates scripts off the UI thread (see ValidationWorkerClient).
+ */
+
+const queued = new Map<number, ValidateRequest>();
+
+const respond = (response: ValidationResponse) => {
+  self.postMessage(response);
+};
+
+const runValidation = (id: number) => {
+  const request = queued.get(id);
+  if (!request) return; // Cancelled
+  queued.delete(id);
+
+  try {
+    respond({ type: 'result', id, diagnostics: ScribanParser.validate(request.script, request.mode) });
+  } catch (error) {
+    console.error('[VALIDATION_WORKER] Validation failed:', error);
+    respond({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+self.addEventListener('message', (event: MessageEvent<ValidationRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'catalog':
+      FunctionCatalog.setFunctions(request.functions, request.namespaces);
+      break;
+    case 'validate':
+      // Run after the messages already received, so a cancel sent right after the request skips it
+      queued.set(request.id, request);
+      setTimeout(() => runValidation(request.id), 0);
+      break;
+    case 'cancel':
+      queued.delete(request.id);
+      break;
+  }
+});
@@ -0,0 +1,116 @@
+import { CustomFunction, CustomNamespace, Diagnostic, ScribanMode } from '../types';
+import { FunctionCatalog } from './functionCatalog';
+import { ScribanParser } from './scribanParser';
+import { ValidationRequest, ValidationResponse } from './validationProtocol';
+
+interface PendingRequest {
+  script: string;
+  mode: ScribanMode;
+  resolve: (diagnostics: Diagnostic[]) => void;
+}
+
+/**
+ * Runs ScribanParser.validate in a dedicated worker, so parsing large scripts does not block typing.
+ *
+ * Only the latest request matters: sending one cancels the requests still pending, which then resolve with
+ * the diagnostics of the new request, never with those of an outdated script.
+ * Without Worker support, if the worker fails to load or a validation fails in it, validation runs on the UI thread.
+ */
+export class ValidationWorkerClient {
+  private static worker: Worker | null = null;
+  private static workerFailed = false;
+  private static nextId = 1;
+  private static pending = new Map<number, PendingRequest>();
+  private static sentFunctions: CustomFunction[] | null = null;
+  private static sentNamespaces: CustomNamespace[] | null = null;
+
+  /**
+   * Diagnostics for `script`, or for the script of a newer request that superseded this one.
+   */
+  static validate(script: string, mode: ScribanMode = 'script'): Promise<Diagnostic[]> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return Promise.resolve(ScribanParser.validate(script, mode));
+    }
+
+    const superseded = [...this.pending.values()];
+    this.pending.forEach((_, id) => this.post({ type: 'cancel', id }));
+    this.pending.clear();
+    this.syncCatalog();
+
+    const id = this.nextId++;
+    return new Promise(resolve => {
+      const resolveAll = (diagnostics: Diagnostic[]) => {
+        superseded.forEach(request => request.resolve(diagnostics));
+        resolve(diagnostics);
+      };
+      this.pending.set(id, { script, mode, resolve: resolveAll });
+      this.post({ type: 'validate', id, script, mode });
+    });
+  }
+
+  private static getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker;
+    if (typeof Worker === 'undefined') {
+      this.workerFailed = true;
+      return null;
+    }
+
+    try {
+      const worker = new Worker(new URL('./validationWorker.ts', import.meta.url), { type: 'module' });
+      worker.addEventListener('message', (event: MessageEvent<ValidationResponse>) => this.handleResponse(event.data));
+      worker.addEventListener('error', event => this.handleWorkerError(event.message));
+      this.worker = worker;
+    } catch (error) {
+      console.error('[VALIDATION_WORKER] Could not start the worker, validating on the UI thread:', error);
+      this.workerFailed = true;
+    }
+    return this.worker;
+  }
+
+  /**
+   * Send the catalog if it changed since it was last sent (the catalog replaces its arrays on every change).
+   */
+  private static syncCatalog(): void {
+    const functions = FunctionCatalog.getFunctions();
+    const namespaces = FunctionCatalog.getNamespaces();
+    if (functions === this.sentFunctions && namespaces === this.sentNamespaces) return;
+
+    this.post({ type: 'catalog', functions, namespaces });
+    this.sentFunctions = functions;
+    this.sentNamespaces = namespaces;
+  }
+
+  private static post(request: ValidationRequest): void {
+    this.worker?.postMessage(request);
+  }
+
+  private static handleResponse(response: ValidationResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) return; // Cancelled while running
+    this.pending.delete(response.id);
+
+    if (response.type === 'error') {
+      console.error('[VALIDATION_WORKER] Validation failed, validating on the UI thread:', response.message);
+      request.resolve(ScribanParser.validate(request.script, request.mode));
+    } else {
+      request.resolve(response.diagnostics);
+    }
+  }
+
+  /**
+   * The worker could not be loaded or crashed: validate the pending requests here, and all later ones.
+   */
+  private static handleWorkerError(message: string): void {
+    console.error('[VALIDATION_WORKER] Worker failed, validating on the UI thread:', message);
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFailed = true;
+    this.sentFunctions = null;
+    this.sentNamespaces = null;
+
+    const pending = [...this.pending.values()];
+    this.pending.clear();
+    pending.forEach(request => request.resolve(ScribanParser.validate(request.script, request.mode)));
+  }
+}
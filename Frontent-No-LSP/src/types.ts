@@ -1,17 +1,98 @@
+/**
+ * How an editor reads its content: `script` is all code, `template` is text with code in `{{ ... }}` blocks.
+ */
+export type ScribanMode = 'script' | 'template';
+
 export interface CustomFunction {
-  name: string;
+  name: string; // Qualified name for namespace members, e.g. 'os.path_exists'
   doc: string;
   signature: string;
   parameters: FunctionParameter[];
+  overloads?: FunctionOverload[]; // Additional signatures, e.g. copy(source, dest, overwrite)
+  returnType?: ReturnType; // Type of the call's value, used to infer variable types (unknown if omitted)
+  deprecated?: FunctionDeprecation;
+  category?: string; // Group in the function browser, e.g. 'File operations'
+  tags?: string[]; // Extra search terms for the function browser
+  examples?: string[]; // Example calls shown in the generated function reference
+}
+
+/**
+ * Marks a function as retired. Calls are reported and can be rewritten to the replacement,
+ * whose arguments are matched to the old ones by parameter name.
+ */
+export interface FunctionDeprecation {
+  message: string;
+  replacement?: string; // Qualified name of the function to use instead, e.g. 'copy'
+}
+
+/**
+ * Alternative signature of a CustomFunction.
+ * The primary signature is the function's own `signature`/`parameters`.
+ */
+export interface FunctionOverload {
+  signature: string;
+  parameters: FunctionParameter[];
+  doc?: string; // Signature-specific documentation (defaults to the function doc)
+}
+
+/**
+ * Object namespace grouping member functions (ApiSpec `type: "object"` entries).
+ * Members are regular CustomFunction entries whose name is qualified with the namespace.
+ */
+export interface CustomNamespace {
+  name: string;
+  doc: string;
+}
+
+export type ParameterType = 'path' | 'enum' | 'string' | 'number' | 'boolean' | 'any';
+
+/**
+ * Type of the value a function returns. 'void' functions return nothing.
+ */
+export type ReturnType = 'path' | 'string' | 'number' | 'boolean' | 'array' | 'any' | 'void';
+
+/**
+ * Allowed value of an enum parameter. Values are written as string literals, e.g. "sha256".
+ */
+export interface EnumOption {
+  value: string;
+  description?: string;
 }
 
 export interface FunctionParameter {
   name: string;
-  type: 'path' | 'string' | 'number' | 'boolean';
-  optional?: boolean;
+  type: ParameterType;
+  optional?: boolean; // May be omitted; markers are not inserted for trailing optional parameters
+  defaultValue?: string; // Source text of the value used when omitted, e.g. 'false' or '"*"'
   description?: string;
   pathType?: 'file' | 'folder' | 'both'; // For path parameters: file only, folder only, or both
   isSource?: boolean; // True if this is a source parameter (supports globbing, whole folder option)
+  rest?: boolean; // Variadic: takes all remaining arguments (only valid on the last parameter)
+  options?: EnumOption[]; // For enum parameters: the values offered by the enum picker
+  constraints?: ParameterConstraints; // Checked against literal arguments by ScribanParser
+  macros?: string[]; // For string parameters: keys of the macros offered inside the string (see MACROS)
+}
+
+/**
+ * Template snippet that can be inserted inside a string argument, e.g. `{{ date.now }}`.
+ */
+export interface MacroDefinition {
+  key: string;   // Key used in parameter definitions, e.g. 'TIMESTAMP'
+  label: string; // Shown in the context menu and completion list, e.g. 'Timestamp'
+  text: string;  // Inserted at the cursor
+}
+
+/**
+ * Value constraints of a parameter. Number constraints apply to number literals,
+ * string constraints to string literals; other arguments cannot be checked.
+ */
+export interface ParameterConstraints {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  pattern?: string; // Regular expression the whole value must match
+  maxLength?: number;
+  allowedValues?: string[];
 }
 
 export interface Diagnostic {
@@ -21,6 +102,20 @@ export interface Diagnostic {
   endCol: number;
   message: string;
   severity: 'error' | 'warning';
+  code?: string; // Kind of diagnostic for code actions, e.g. 'deprecated'
+  tags?: Array<'deprecated' | 'unnecessary'>; // Rendered as strikethrough / faded text
+  relatedInformation?: DiagnosticRelatedInformation[];
+}
+
+/**
+ * Another location a diagnostic refers to, e.g. the `for` of a block that is missing its `end`.
+ */
+export interface DiagnosticRelatedInformation {
+  startLine: number;
+  startCol: number;
+  endLine: number;
+  endCol: number;
+  message: string;
 }
 
 export interface FileSystemSnapshot {
@@ -28,3 +123,75 @@ export interface FileSystemSnapshot {
   folders: string[];
 }
 
+/**
+ * ApiSpec format shared with the backend (see Backend/ScribanLanguageServer.Server/api-spec.json).
+ * The optional No-LSP fields (doc, signature, returns, deprecated, category, tags, description, optional, pathType,
+ * isSource, optionDescriptions, constraints) are ignored by the backend and only refine the converted CustomFunction metadata.
+ */
+export interface ApiSpec {
+  globals: ApiSpecGlobal[];
+}
+
+export interface ApiSpecGlobal {
+  name: string;
+  type: 'object' | 'function';
+  hover: string;
+  members?: ApiSpecFunction[];
+  parameters?: ApiSpecParameter[];
+  signature?: string;
+  overloads?: ApiSpecOverload[];
+  returns?: ReturnType;
+  deprecated?: FunctionDeprecation;
+  category?: string;
+  tags?: string[];
+  examples?: string[];
+}
+
+export interface ApiSpecFunction {
+  name: string;
+  type: 'function';
+  hover: string;
+  parameters: ApiSpecParameter[];
+  signature?: string;
+  overloads?: ApiSpecOverload[];
+  returns?: ReturnType;
+  deprecated?: FunctionDeprecation;
+  category?: string;
+  tags?: string[];
+  examples?: string[];
+}
+
+/**
+ * Additional signature of an ApiSpec function (No-LSP extension).
+ */
+export interface ApiSpecOverload {
+  parameters: ApiSpecParameter[];
+  signature?: string;
+  hover?: string;
+}
+
+export type ApiSpecParameterType = 'path' | 'constant' | 'string' | 'number' | 'boolean' | 'any';
+
+export type ApiSpecPicker = 'file-picker' | 'enum-list' | 'none';
+
+export interface ApiSpecParameter {
+  name: string;
+  type: ApiSpecParameterType;
+  picker: ApiSpecPicker;
+  options?: string[];
+  optionDescriptions?: Record<string, string>; // Option value -> description shown in the enum picker
+  macros?: string[];
+  description?: string;
+  optional?: boolean;
+  defaultValue?: string;
+  pathType?: 'file' | 'folder' | 'both';
+  isSource?: boolean;
+  rest?: boolean;
+  constraints?: ParameterConstraints;
+}
+
+export interface ApiSpecValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+}
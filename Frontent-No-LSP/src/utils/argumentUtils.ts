@@ -0,0 +1,206 @@
+import { MARKER_TOKEN } from '../config';
+import { ParameterType, ReturnType } from '../types';
+import { isStringStart, scanStringLiteral, StringQuote, unescapeString } from './stringLiteralUtils';
+
+/**
+ * Type of an argument as far as it can be told from its source text (see TypeInference for
+ * variables and calls). 'unknown' is used for markers and expressions that cannot be typed.
+ */
+export type ArgumentType = ParameterType | ReturnType | 'unknown';
+
+export interface ArgumentText {
+  text: string;   // Trimmed argument text
+  start: number;  // 0-based offset of the first non-whitespace character (relative to the input)
+  end: number;    // 0-based offset after the last non-whitespace character
+}
+
+/**
+ * Kind of expression an argument is, as far as it can be told from its source text:
+ * - `string`, `number`, `boolean`: a single literal (`string` includes verbatim strings)
+ * - `interpolated`: an interpolated string (`$"{name}.txt"`)
+ * - `marker`: the parameter marker, quoted or not
+ * - `variable` (`base`), `member` (`file.name`, `items[0]`), `call` (`read("a.txt")`)
+ * - `array` (`["a", "b"]`), `parenthesized` (`(a)`), `concatenation` (`base + "/out/"`)
+ * - `expression`: anything else (operators, member access on a call result, incomplete text)
+ */
+export type ArgumentKind =
+  | 'empty'
+  | 'marker'
+  | 'string'
+  | 'interpolated'
+  | 'number'
+  | 'boolean'
+  | 'variable'
+  | 'member'
+  | 'call'
+  | 'array'
+  | 'parenthesized'
+  | 'concatenation'
+  | 'expression';
+
+const IDENTIFIER = /^[a-zA-Z_]\w*$/;
+const OPEN_BRACKETS = '([{';
+const CLOSE_BRACKETS = ')]}';
+
+/**
+ * Split text on a separator character that is outside quotes and brackets.
+ * Parts are trimmed; their offsets are relative to the input.
+ */
+function splitTopLevel(text: string, separator: string): ArgumentText[] {
+  const parts: ArgumentText[] = [];
+  let depth = 0;
+  let partStart = 0;
+
+  const pushPart = (end: number) => {
+    const raw = text.substring(partStart, end);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    parts.push({ text: trimmed, start: partStart + leading, end: partStart + leading + trimmed.length });
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (isStringStart(text, i)) {
+      i = scanStringLiteral(text, i).end - 1;
+    } else if (OPEN_BRACKETS.includes(char)) {
+      depth++;
+    } else if (CLOSE_BRACKETS.includes(char)) {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      pushPart(i);
+      partStart = i + 1;
+    }
+  }
+
+  pushPart(text.length);
+  return parts;
+}
+
+/**
+ * Split the text between a call's parentheses into top-level arguments.
+ * Commas inside quotes or nested brackets do not split.
+ * An empty input yields no arguments; `"a",` yields two (the second one empty).
+ */
+export function splitTopLevelArguments(argsText: string): ArgumentText[] {
+  if (!argsText.trim()) return [];
+  return splitTopLevel(argsText, ',');
+}
+
+/**
+ * Offset of the bracket closing the one at openIndex, skipping strings and nested brackets.
+ * Returns -1 if it is not closed.
+ */
+export function findClosingBracket(text: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    const char = text[i];
+    if (isStringStart(text, i)) {
+      i = scanStringLiteral(text, i).end - 1;
+    } else if (OPEN_BRACKETS.includes(char)) {
+      depth++;
+    } else if (CLOSE_BRACKETS.includes(char)) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Operands of a top-level `+` concatenation (`base + "/out/"`), or null if the text is not one.
+ */
+export function splitConcatenation(text: string): ArgumentText[] | null {
+  const operands = splitTopLevel(text.trim(), '+');
+  if (operands.length < 2 || operands.some(operand => !operand.text)) return null;
+  return operands;
+}
+
+/**
+ * True if the whole text is a single closed string literal (`"a"`, but not `"a" + "b"`).
+ */
+function isStringLiteral(text: string): boolean {
+  if (!isStringStart(text, 0)) return false;
+  const scan = scanStringLiteral(text, 0);
+  return scan.terminated && scan.end === text.length;
+}
+
+/**
+ * True if the text is an identifier followed by `.name` or `[index]` accessors.
+ */
+function isMemberAccess(text: string): boolean {
+  const head = text.match(/^[a-zA-Z_]\w*/);
+  if (!head) return false;
+
+  let i = head[0].length;
+  let accessors = 0;
+  while (i < text.length) {
+    if (text[i] === '.') {
+      const name = text.substring(i + 1).match(/^[a-zA-Z_]\w*/);
+      if (!name) return false;
+      i += name[0].length + 1;
+    } else if (text[i] === '[') {
+      const close = findClosingBracket(text, i);
+      if (close === -1) return false;
+      i = close + 1;
+    } else {
+      return false;
+    }
+    accessors++;
+  }
+  return accessors > 0;
+}
+
+/**
+ * Classify an argument's source text, see ArgumentKind.
+ */
+export function classifyArgument(text: string): ArgumentKind {
+  const trimmed = text.trim();
+  if (!trimmed) return 'empty';
+  if (trimmed === MARKER_TOKEN || trimmed === `"${MARKER_TOKEN}"` || trimmed === `'${MARKER_TOKEN}'`) return 'marker';
+  if (isStringLiteral(trimmed)) return trimmed[0] === '$' ? 'interpolated' : 'string';
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return 'number';
+  if (trimmed === 'true' || trimmed === 'false') return 'boolean';
+  if (splitConcatenation(trimmed)) return 'concatenation';
+  if (IDENTIFIER.test(trimmed)) return 'variable';
+  if (isMemberAccess(trimmed)) return 'member';
+
+  const openIndex = trimmed.search(/[([]/);
+  const isWhole = openIndex !== -1 && findClosingBracket(trimmed, openIndex) === trimmed.length - 1;
+  if (isWhole && /^[a-zA-Z_][\w.]*\s*\(/.test(trimmed)) return 'call';
+  if (isWhole && trimmed[0] === '[') return 'array';
+  if (isWhole && trimmed[0] === '(') return 'parenthesized';
+  return 'expression';
+}
+
+/**
+ * Infer the type of a literal argument from its text.
+ */
+export function inferArgumentType(text: string): ArgumentType {
+  const trimmed = text.trim();
+  const kind = classifyArgument(trimmed);
+  if (kind === 'interpolated') return 'string';
+  return kind === 'string' || kind === 'number' || kind === 'boolean' ? kind : 'unknown';
+}
+
+/**
+ * Value of a string literal argument (escapes resolved), or null for any other argument.
+ * Interpolated strings have no constant value.
+ */
+export function getStringLiteralValue(text: string): string | null {
+  const trimmed = text.trim();
+  if (classifyArgument(trimmed) !== 'string') return null;
+  return unescapeString(trimmed.slice(1, -1), trimmed[0] as StringQuote);
+}
+
+/**
+ * Check whether an argument of the given type can be passed to a parameter type.
+ * Strings and paths are interchangeable, strings are accepted for enum parameters;
+ * unknown and 'any' arguments are always accepted.
+ */
+export function isArgumentTypeCompatible(argumentType: ArgumentType, parameterType: ParameterType): boolean {
+  if (argumentType === 'unknown' || argumentType === 'any' || parameterType === 'any') return true;
+  if (parameterType === 'path' || parameterType === 'string') return argumentType === 'string' || argumentType === 'path';
+  if (parameterType === 'enum') return argumentType === 'string';
+  return argumentType === parameterType;
+}
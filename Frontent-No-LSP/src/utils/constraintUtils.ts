@@ -0,0 +1,65 @@
+import { FunctionParameter, ParameterConstraints } from '../types';
+import { getStringLiteralValue, inferArgumentType } from './argumentUtils';
+
+/**
+ * Check a literal argument against the parameter's constraints.
+ * Returns the diagnostic message for the first violated constraint, or null if the argument
+ * satisfies all of them (or is not a literal that can be checked).
+ */
+export function checkConstraints(param: FunctionParameter, argumentText: string): string | null {
+  const constraints = param.constraints;
+  if (!constraints) return null;
+
+  if (inferArgumentType(argumentText) === 'number') {
+    return checkNumberConstraints(param.name, Number(argumentText.trim()), constraints);
+  }
+
+  const value = getStringLiteralValue(argumentText);
+  if (value !== null) {
+    return checkStringConstraints(param.name, value, constraints);
+  }
+
+  return null;
+}
+
+function checkNumberConstraints(name: string, value: number, constraints: ParameterConstraints): string | null {
+  if (constraints.integer && !Number.isInteger(value)) {
+    return `"${name}" must be an integer, got ${value}`;
+  }
+  if (constraints.min !== undefined && value < constraints.min) {
+    return `"${name}" must be at least ${constraints.min}, got ${value}`;
+  }
+  if (constraints.max !== undefined && value > constraints.max) {
+    return `"${name}" must be at most ${constraints.max}, got ${value}`;
+  }
+  return null;
+}
+
+function checkStringConstraints(name: string, value: string, constraints: ParameterConstraints): string | null {
+  if (constraints.allowedValues && !constraints.allowedValues.includes(value)) {
+    const expected = constraints.allowedValues.map(v => `"${v}"`).join(', ');
+    return `Invalid value "${value}" for "${name}": expected one of ${expected}`;
+  }
+  if (constraints.maxLength !== undefined && value.length > constraints.maxLength) {
+    return `"${name}" must be at most ${constraints.maxLength} characters long, got ${value.length}`;
+  }
+  if (constraints.pattern !== undefined && !new RegExp(`^(?:${constraints.pattern})$`).test(value)) {
+    return `"${name}" must match the pattern ${constraints.pattern}`;
+  }
+  return null;
+}
+
+/**
+ * Human-readable summary of the constraints, e.g. `1..9, integer`, for signature help.
+ */
+export function describeConstraints(constraints: ParameterConstraints): string {
+  const parts: string[] = [];
+  if (constraints.min !== undefined || constraints.max !== undefined) {
+    parts.push(`${constraints.min ?? ''}..${constraints.max ?? ''}`);
+  }
+  if (constraints.integer) parts.push('integer');
+  if (constraints.maxLength !== undefined) parts.push(`at most ${constraints.maxLength} characters`);
+  if (constraints.pattern !== undefined) parts.push(`matches \`${constraints.pattern}\``);
+  if (constraints.allowedValues) parts.push(`one of ${constraints.allowedValues.map(v => `"${v}"`).join(', ')}`);
+  return parts.join(', ');
+}
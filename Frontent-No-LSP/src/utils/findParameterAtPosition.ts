@@ -1,6 +1,9 @@
 import * as monaco from 'monaco-editor';
 import { FunctionCallParser } from '../services/functionCallParser';
 import { RangeUtils } from '../services/rangeUtils';
+import { OverloadResolver } from '../services/overloadResolver';
+import { hasPicker } from './signatureUtils';
+import { ArgumentKind } from './argumentUtils';
 
 export interface ParameterPositionInfo {
   range: monaco.Range;
@@ -8,9 +11,13 @@ export interface ParameterPositionInfo {
   parameterIndex: number;
 }
 
+// Arguments a picker value can replace
+const PICKER_ARGUMENT_KINDS: ArgumentKind[] = ['empty', 'marker', 'string'];
+
 /**
- * Find if a given position in the editor is within a path parameter.
+ * Find if a given position in the editor is within a picker (path or enum) parameter.
  * Returns parameter info if found, null otherwise.
+ * In nested calls (`copy(read("list.txt"), ...)`) the innermost call's parameter is used.
  */
 export function findParameterAtPosition(
   model: monaco.editor.ITextModel,
@@ -20,9 +27,13 @@ export function findParameterAtPosition(
   const paramInfo = FunctionCallParser.getParameterIndexAtPosition(model, position);
   if (!paramInfo) return null;
 
-  // Only return if it's a path parameter
+  // Only return if the parameter has a picker
   const param = paramInfo.functionCall.parameters[paramInfo.parameterIndex];
-  if (param.type !== 'path') return null;
+  const paramDef = OverloadResolver.getParameterAt(paramInfo.functionCall.overload.parameters, paramInfo.parameterIndex);
+  if (!paramDef || !hasPicker(paramDef)) return null;
+
+  // Pickers replace literals only; variables, nested calls and other expressions are left alone
+  if (!PICKER_ARGUMENT_KINDS.includes(param.kind)) return null;
 
   // Get the replacement range (includes quotes if present)
   const range = RangeUtils.getReplacementRange(param);
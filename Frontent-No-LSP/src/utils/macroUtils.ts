@@ -0,0 +1,44 @@
+import * as monaco from 'monaco-editor';
+import { FunctionCallParser } from '../services/functionCallParser';
+import { OverloadResolver } from '../services/overloadResolver';
+import { FunctionParameter, MacroDefinition } from '../types';
+import { MACROS } from '../config';
+
+export interface MacroParameterInfo {
+  functionName: string;
+  parameter: FunctionParameter;
+  macros: MacroDefinition[];
+}
+
+/**
+ * Get the macro definition for a key; unknown keys are inserted as `{{ key }}` in lower case.
+ */
+export function resolveMacro(key: string): MacroDefinition {
+  return MACROS.find(m => m.key === key) ?? { key, label: key, text: `{{ ${key.toLowerCase()} }}` };
+}
+
+/**
+ * Find if a given position is inside the quotes of a string argument whose parameter offers macros.
+ * Returns the parameter and its macros if found, null otherwise.
+ */
+export function findMacroParameterAtPosition(
+  model: monaco.editor.ITextModel,
+  position: monaco.Position
+): MacroParameterInfo | null {
+  const paramInfo = FunctionCallParser.getParameterIndexAtPosition(model, position);
+  if (!paramInfo) return null;
+
+  const param = paramInfo.functionCall.parameters[paramInfo.parameterIndex];
+  const paramDef = OverloadResolver.getParameterAt(paramInfo.functionCall.overload.parameters, paramInfo.parameterIndex);
+  if (!paramDef?.macros || paramDef.macros.length === 0) return null;
+
+  // Only between the quotes: the range is the string content, ending after the closing quote
+  if (!param.isQuoted || param.isMarker) return null;
+  if (position.column < param.range.startColumn || position.column >= param.range.endColumn) return null;
+
+  return {
+    functionName: paramInfo.functionCall.functionName,
+    parameter: paramDef,
+    macros: paramDef.macros.map(resolveMacro)
+  };
+}
@@ -0,0 +1,53 @@
+import { CustomFunction, FunctionParameter } from '../types';
+import { OverloadResolver } from '../services/overloadResolver';
+import { buildMarkerForParameter, getRequiredParameterCount } from './signatureUtils';
+
+/**
+ * Build the call to a replacement function from the arguments of a call to a deprecated one.
+ *
+ * Arguments are matched by parameter name; a rest parameter takes all of its arguments along.
+ * The replacement signature with the fewest parameters that still takes every argument is used.
+ * Parameters without a matching argument get their default value (or a marker) when a later
+ * parameter is filled or they are required; trailing optional ones are left out.
+ *
+ * Returns null if an argument has no parameter of the same name in any replacement signature.
+ */
+export function buildReplacementCall(
+  parameters: FunctionParameter[],
+  argumentTexts: string[],
+  replacement: CustomFunction
+): string | null {
+  const valuesByName = new Map<string, string[]>();
+  argumentTexts.forEach((text, index) => {
+    const param = OverloadResolver.getParameterAt(parameters, index);
+    if (!param || text === '') return;
+    valuesByName.set(param.name, [...(valuesByName.get(param.name) ?? []), text]);
+  });
+
+  const names = [...valuesByName.keys()];
+  const candidates = OverloadResolver.getSignatures(replacement)
+    .filter(signature => names.every(name => signature.parameters.some(p => p.name === name)))
+    .sort((a, b) => a.parameters.length - b.parameters.length);
+  if (candidates.length === 0) return null;
+
+  const target = candidates[0].parameters;
+  let lastFilled = -1;
+  target.forEach((param, index) => {
+    if (valuesByName.has(param.name)) lastFilled = index;
+  });
+  const count = Math.max(lastFilled + 1, getRequiredParameterCount(target));
+
+  const args: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const param = target[i];
+    const values = valuesByName.get(param.name);
+    if (values && values.length > 1 && !param.rest) return null;
+    if (values) {
+      args.push(...values);
+    } else {
+      args.push(param.defaultValue ?? buildMarkerForParameter(param));
+    }
+  }
+
+  return `${replacement.name}(${args.join(', ')})`;
+}
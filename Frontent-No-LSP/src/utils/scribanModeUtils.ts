@@ -0,0 +1,14 @@
+import * as monaco from 'monaco-editor';
+import { LANGUAGE_ID, TEMPLATE_LANGUAGE_ID } from '../config';
+import { ScribanMode } from '../types';
+
+/**
+ * Mode of an editor, from its model's language
+ */
+export const getScribanMode = (model: monaco.editor.ITextModel): ScribanMode => {
+  return model.getLanguageId() === TEMPLATE_LANGUAGE_ID ? 'template' : 'script';
+};
+
+export const getLanguageIdForMode = (mode: ScribanMode): string => {
+  return mode === 'template' ? TEMPLATE_LANGUAGE_ID : LANGUAGE_ID;
+};
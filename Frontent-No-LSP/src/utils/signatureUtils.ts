@@ -0,0 +1,71 @@
+import { MARKER_TOKEN } from '../config';
+import { FunctionParameter } from '../types';
+
+export interface FormattedSignature {
+  label: string;
+  parameterOffsets: Array<[number, number]>; // [start, end) of each parameter inside label
+}
+
+/**
+ * Format a single parameter for display:
+ * `name`, `...name` for rest parameters, `[name]` / `[name = default]` for optional ones.
+ */
+export function formatParameter(param: FunctionParameter): string {
+  const name = param.rest ? `...${param.name}` : param.name;
+  if (!param.optional) return name;
+  return param.defaultValue !== undefined ? `[${name} = ${param.defaultValue}]` : `[${name}]`;
+}
+
+/**
+ * Format a signature label and remember where each parameter is, so Monaco can
+ * highlight the active parameter even when two parameters share a name fragment.
+ */
+export function formatSignature(functionName: string, parameters: FunctionParameter[]): FormattedSignature {
+  let label = `${functionName}(`;
+  const parameterOffsets: Array<[number, number]> = [];
+
+  parameters.forEach((param, index) => {
+    if (index > 0) label += ', ';
+    const text = formatParameter(param);
+    parameterOffsets.push([label.length, label.length + text.length]);
+    label += text;
+  });
+
+  label += ')';
+  return { label, parameterOffsets };
+}
+
+/**
+ * Number of leading parameters that must be written: everything up to the last required one.
+ * Optional parameters after it are left out when markers are inserted.
+ */
+export function getRequiredParameterCount(parameters: FunctionParameter[]): number {
+  for (let i = parameters.length - 1; i >= 0; i--) {
+    if (!parameters[i].optional) return i + 1;
+  }
+  return 0;
+}
+
+/**
+ * True if values of the parameter are chosen with a picker (file picker for paths, enum picker for enums).
+ */
+export function hasPicker(param: FunctionParameter): boolean {
+  return param.type === 'path' || param.type === 'enum';
+}
+
+/**
+ * Marker text for one parameter: quoted for picker parameters (so the picker opens), bare otherwise.
+ */
+export function buildMarkerForParameter(param: FunctionParameter): string {
+  return hasPicker(param) ? `"${MARKER_TOKEN}"` : MARKER_TOKEN;
+}
+
+/**
+ * Comma-separated markers for the required parameters of a signature, in declaration order.
+ */
+export function buildMarkerArguments(parameters: FunctionParameter[]): string {
+  return parameters
+    .slice(0, getRequiredParameterCount(parameters))
+    .map(buildMarkerForParameter)
+    .join(', ');
+}
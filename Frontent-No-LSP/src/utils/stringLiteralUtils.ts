@@ -0,0 +1,127 @@
+/**
+ * Scriban string literals:
+ * - `"..."` and `'...'` with backslash escapes, ending at the line end if not closed
+ * - `` `...` `` verbatim strings: no escapes (a doubled backtick is a backtick), may span lines
+ * - `$"..."` / `$'...'` interpolated strings, with expressions in `{...}`
+ */
+
+export type StringQuote = '"' | "'" | '`';
+
+export interface StringLiteralScan {
+  end: number;          // Offset after the closing quote, or where the unclosed string stops
+  terminated: boolean;
+  interpolations: Array<{ start: number; end: number }>; // Expression text inside `{...}`, without the braces
+}
+
+const ESCAPES: Record<string, string> = {
+  n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', v: '\v', '0': '\0'
+};
+
+/**
+ * True if a string literal starts at `offset` (a quote, or `$` followed by a quote).
+ */
+export function isStringStart(text: string, offset: number): boolean {
+  const char = text[offset];
+  return char === '"' || char === "'" || char === '`' ||
+    (char === '$' && (text[offset + 1] === '"' || text[offset + 1] === "'"));
+}
+
+/**
+ * Read the string literal starting at `start` (see isStringStart).
+ * Interpolations may contain nested strings and braces.
+ */
+export function scanStringLiteral(text: string, start: number): StringLiteralScan {
+  const interpolated = text[start] === '$';
+  const quoteIndex = interpolated ? start + 1 : start;
+  const quote = text[quoteIndex];
+  const interpolations: StringLiteralScan['interpolations'] = [];
+  let i = quoteIndex + 1;
+
+  if (quote === '`') {
+    while (i < text.length) {
+      if (text[i] === '`') {
+        if (text[i + 1] !== '`') return { end: i + 1, terminated: true, interpolations };
+        i++;
+      }
+      i++;
+    }
+    return { end: text.length, terminated: false, interpolations };
+  }
+
+  while (i < text.length && text[i] !== '\n') {
+    const char = text[i];
+    if (char === '\\') {
+      i += text[i + 1] === '\n' ? 1 : 2;
+    } else if (char === quote) {
+      return { end: i + 1, terminated: true, interpolations };
+    } else if (char === '{' && interpolated) {
+      const close = findInterpolationEnd(text, i + 1);
+      interpolations.push({ start: i + 1, end: close });
+      i = close < text.length && text[close] === '}' ? close + 1 : close;
+    } else {
+      i++;
+    }
+  }
+  return { end: Math.min(i, text.length), terminated: false, interpolations };
+}
+
+/**
+ * Offset of the `}` closing an interpolation whose expression starts at `start`,
+ * or the line end if it is not closed.
+ */
+function findInterpolationEnd(text: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  while (i < text.length && text[i] !== '\n') {
+    if (isStringStart(text, i)) {
+      i = scanStringLiteral(text, i).end;
+      continue;
+    }
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && depth-- === 0) return i;
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Length of the part before the content: 2 for `$"`, 1 otherwise.
+ */
+export function getStringPrefixLength(literal: string): number {
+  return literal[0] === '$' ? 2 : 1;
+}
+
+/**
+ * Value of a string literal's content as written between the quotes.
+ */
+export function unescapeString(content: string, quote: StringQuote): string {
+  if (quote === '`') {
+    return content.replace(/``/g, '`');
+  }
+  return content.replace(/\\(u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|[\s\S])/g, (_match, escape: string) => {
+    if (escape.length > 1) return String.fromCharCode(parseInt(escape.substring(1), 16));
+    return ESCAPES[escape] ?? escape;
+  });
+}
+
+/**
+ * Content to write between the given quotes so the string's value is `value`.
+ */
+export function escapeString(value: string, quote: StringQuote): string {
+  if (quote === '`') {
+    return value.replace(/`/g, '``');
+  }
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(new RegExp(quote, 'g'), `\\${quote}`)
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+/**
+ * A string literal with the given value, written with the given quotes.
+ */
+export function formatStringLiteral(value: string, quote: StringQuote = '"'): string {
+  return `${quote}${escapeString(value, quote)}${quote}`;
+}